@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import FeedbackReview from '@/components/FeedbackReview';
+import { getFeedbackStore } from '@/lib/feedback-store';
+import { getVectorStore } from '@/lib/vector-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const metadata = { title: 'Answer feedback - VoltDrive Support' };
+
+const QUEUE_LIMIT = 200;
+
+const formatScore = (score: number | undefined) => (score === undefined ? '-' : score.toFixed(3));
+
+/**
+ * Review queue for thumbs-down answers: what was asked, what came back and
+ * from which sources, with an editor for the sources it should have used
+ */
+export default async function FeedbackAdminPage() {
+  const [entries, documents] = await Promise.all([
+    getFeedbackStore().list({ rating: 'down', limit: QUEUE_LIMIT }),
+    getVectorStore().listDocuments(),
+  ]);
+  const documentNames = documents.map((d) => d.document).sort();
+  const reviewed = entries.filter((entry) => entry.expected && entry.expected.length > 0).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+          <div>
+            <Link href="/" className="text-sm text-voltdrive-blue hover:underline">
+              ← Back to chat
+            </Link>
+            <h1 className="text-xl font-bold text-gray-800">Negative answer feedback</h1>
+            <p className="text-sm text-gray-500">
+              {entries.length} {entries.length === 1 ? 'entry' : 'entries'}, {reviewed} with expected sources
+            </p>
+          </div>
+          <a
+            href="/api/admin/feedback/export"
+            className="px-3 py-1.5 rounded-lg bg-voltdrive-blue text-white text-sm font-medium hover:opacity-90"
+            title="Reviewed entries as a golden set for npm run eval -- --dataset <file>.jsonl"
+          >
+            Export JSONL
+          </a>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-4">
+        {entries.length === 0 && <p className="text-sm text-gray-500">No negative feedback yet.</p>}
+
+        {entries.map((entry) => (
+          <article key={entry.id} className="bg-white border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+            <div className="flex items-start justify-between gap-4">
+              <h2 className="font-semibold text-gray-900">{entry.question || '(question not found)'}</h2>
+              <span className="shrink-0 text-xs text-gray-500">
+                {new Date(entry.createdAt).toLocaleString()} · {entry.decision}
+              </span>
+            </div>
+
+            {entry.comment && (
+              <p className="px-3 py-2 border-l-4 border-amber-400 bg-amber-50 text-amber-900">{entry.comment}</p>
+            )}
+
+            <details>
+              <summary className="cursor-pointer text-xs font-semibold text-gray-500">Answer</summary>
+              <p className="mt-2 whitespace-pre-wrap text-gray-700">{entry.answer}</p>
+            </details>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1">Retrieved sources</p>
+              {entry.sources.length === 0 ? (
+                <p className="text-xs text-gray-500">None</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-left text-gray-500">
+                    <tr>
+                      <th className="font-medium">Source</th>
+                      <th className="font-medium w-24">Similarity</th>
+                      <th className="font-medium w-24">Rerank</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entry.sources.map((source, idx) => (
+                      <tr key={idx}>
+                        <td>
+                          <Link
+                            href={`/docs/${encodeURIComponent(source.document)}/${source.page}`}
+                            className="text-voltdrive-blue hover:underline"
+                          >
+                            {source.document}, page {source.page}
+                          </Link>
+                        </td>
+                        <td>{formatScore(source.similarity)}</td>
+                        <td>{formatScore(source.rerankScore)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1">Should have used</p>
+              <FeedbackReview feedbackId={entry.id} expected={entry.expected} documents={documentNames} />
+            </div>
+          </article>
+        ))}
+      </main>
+    </div>
+  );
+}
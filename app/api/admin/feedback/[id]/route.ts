@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedbackStore } from '@/lib/feedback-store';
+import { ExpectedSource } from '@/lib/retrieval-metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function isExpectedSource(value: any): value is ExpectedSource {
+  return (
+    typeof value?.document === 'string' &&
+    value.document.trim() !== '' &&
+    (value.page === undefined || (Number.isInteger(value.page) && value.page > 0))
+  );
+}
+
+/**
+ * Review a feedback entry: set the sources the answer should have used
+ * (an empty list or null marks it unreviewed again)
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { expected } = await req.json();
+
+    if (expected !== null && !(Array.isArray(expected) && expected.every(isExpectedSource))) {
+      return NextResponse.json(
+        { error: 'expected must be a list of { document, page? } or null' },
+        { status: 400 }
+      );
+    }
+
+    const cleaned = expected?.length
+      ? expected.map(({ document, page }: ExpectedSource) => ({ document: document.trim(), ...(page ? { page } : {}) }))
+      : null;
+    const feedback = await getFeedbackStore().setExpected(params.id, cleaned);
+    return feedback
+      ? NextResponse.json({ feedback })
+      : NextResponse.json({ error: 'Feedback not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Feedback review API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
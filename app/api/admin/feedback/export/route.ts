@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { feedbackToJsonl, getFeedbackStore } from '@/lib/feedback-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Enough for the whole review queue in one file
+const EXPORT_LIMIT = 10000;
+
+/**
+ * Reviewed negative feedback as a JSONL golden set for `npm run eval`
+ */
+export async function GET() {
+  try {
+    const entries = await getFeedbackStore().list({ rating: 'down', limit: EXPORT_LIMIT });
+    return new Response(feedbackToJsonl(entries), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="feedback-golden.jsonl"',
+      },
+    });
+  } catch (error) {
+    console.error('Feedback export API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,21 @@
+import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { generateChatCompletion } from '@/lib/azure-openai';
-import { performRAG } from '@/lib/rag';
-import { ChatRequest } from '@/types';
+import { prepareChat } from '@/lib/chat-pipeline';
+import { CHAT_STREAM_VERSION, encodeChatEvent } from '@/lib/chat-stream';
+import { getClientId } from '@/lib/client-id';
+import { conversationTitle, getConversationStore } from '@/lib/conversation-store';
+import { parseRetrievalFilters } from '@/lib/retrieval-filters';
+import { RERANKER_NAMES, RerankerName } from '@/lib/rerankers';
+import { getSafetyIncidentLog } from '@/lib/safety-incidents';
+import { ChatRequest, ChatStreamEvent, Conversation, Message } from '@/types';
 
-export const runtime = 'edge';
+// Node runtime: the local vector store backends read from disk
+export const runtime = 'nodejs';
 
 export async function POST(req: NextRequest) {
   try {
-    const { message, conversationHistory = [] }: ChatRequest = await req.json();
+    const { message, conversationId, filters, reranker, replaceFrom }: ChatRequest = await req.json();
 
     if (!message) {
       return NextResponse.json(
@@ -16,50 +24,213 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Perform RAG to get relevant context
-    const { systemPrompt, sources } = await performRAG(message, 5);
+    if (reranker && !RERANKER_NAMES.includes(reranker as RerankerName)) {
+      return NextResponse.json(
+        { error: `Unknown reranker: ${reranker}` },
+        { status: 400 }
+      );
+    }
 
-    // Build messages array for Azure OpenAI
-    const messages = [
-      { role: 'system', content: systemPrompt },
-      // Include last 3 messages from conversation history for context
-      ...conversationHistory.slice(-3).map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      { role: 'user', content: message },
-    ];
+    const clientId = getClientId(req);
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Missing client id cookie' },
+        { status: 400 }
+      );
+    }
+
+    // History comes from the server-side store, not from the client
+    const conversations = getConversationStore();
+    let existing: Conversation | undefined;
+    let conversationHistory: Message[] = [];
+    // Stored message the edit or regenerate removes, with everything after it
+    let replacedId: string | undefined;
+    if (replaceFrom !== undefined && !conversationId) {
+      return NextResponse.json(
+        { error: 'replaceFrom requires a conversationId' },
+        { status: 400 }
+      );
+    }
 
-    // Generate streaming response
-    const completion = await generateChatCompletion(messages, true);
+    if (conversationId) {
+      const stored = await conversations.getConversation(clientId, conversationId);
+      if (!stored) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      const { messages: storedMessages, ...rest } = stored;
+      existing = rest;
+      conversationHistory = storedMessages;
+
+      // Edit & resend / regenerate: answer from the history before the replaced question.
+      // An index just past the end replaces a question that was never stored.
+      if (replaceFrom !== undefined) {
+        const index =
+          typeof replaceFrom === 'number' ? replaceFrom : storedMessages.findIndex((m) => m.id === replaceFrom);
+        const replaced = storedMessages[index];
+        const found = typeof replaceFrom === 'number'
+          ? Number.isInteger(index) && index >= 0 && index <= storedMessages.length
+          : index !== -1;
+        if (!found || (replaced && replaced.role !== 'user')) {
+          return NextResponse.json(
+            { error: 'Message to replace not found' },
+            { status: 404 }
+          );
+        }
+        replacedId = replaced?.id;
+        conversationHistory = storedMessages.slice(0, index);
+      }
+    }
+
+    const { query, route, sources, heldBackSources, handoff, safety, safetyNotice, messages } = await prepareChat(message, conversationHistory, {
+      filters: parseRetrievalFilters(filters),
+      reranker: reranker as RerankerName | undefined,
+    });
+
+    // Stopped while the answer was prepared: nothing is written yet, keep it that way
+    if (req.signal.aborted) {
+      return NextResponse.json(
+        { error: 'Client closed request' },
+        { status: 499 }
+      );
+    }
+
+    // Nothing is stored until the answer is prepared, so a failure above
+    // leaves the conversation as it was
+    if (existing && replacedId) {
+      await conversations.deleteMessagesFrom(existing.id, replacedId);
+    }
+    const conversation = existing ?? (await conversations.createConversation(clientId, conversationTitle(message)));
+    const userMessage = await conversations.appendMessage(conversation.id, { role: 'user', content: message });
+    // Reported up front, so an answer the client stops can still be rated and regenerated
+    const answerMessageId = crypto.randomUUID();
+
+    // Undo this exchange when the client leaves before it is told about it. The
+    // replaced messages stay deleted: the client dropped them when it sent the edit.
+    const rollBack = () =>
+      existing
+        ? conversations.deleteMessagesFrom(conversation.id, userMessage.id)
+        : conversations.deleteConversation(clientId, conversation.id);
+
+    // Flagged questions are logged for review; logging must never block the answer
+    if (safety.triggered) {
+      getSafetyIncidentLog()
+        .record({
+          ownerId: clientId,
+          conversationId: conversation.id,
+          message,
+          categories: safety.categories,
+          via: safety.via,
+          matched: safety.matched,
+        })
+        .catch((error) => console.error('Error logging safety incident:', error));
+    }
+
+    // Stops generating when the client goes away (stop button, closed tab)
+    const abort = new AbortController();
+    req.signal.addEventListener('abort', () => abort.abort());
 
-    // Create a TransformStream to handle the streaming response
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)));
+          }
+        };
+
+        let answer = '';
+        let failed = false;
+        // Whether the client got the stored ids; an abort before that undoes the exchange
+        let announced = false;
         try {
+          send({ type: 'start', version: CHAT_STREAM_VERSION });
+
+          // Safety banner goes right after, so it is on screen before anything else
+          if (safetyNotice) {
+            send({ type: 'safety', notice: safetyNotice });
+          }
+
+          // Tell the client which conversation this exchange belongs to
+          send({ type: 'conversation', conversation, userMessageId: userMessage.id, answerMessageId });
+          announced = !abort.signal.aborted;
+
+          // The query retrieval actually ran with and where it was routed (for debugging)
+          send({ type: 'query', ...query, route });
+
           // Send sources first
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: 'sources', sources })}\n\n`)
-          );
+          send({ type: 'sources', sources });
+
+          // Low-confidence answers and refusals offer escalation to a human agent
+          if (handoff) {
+            send({ type: 'handoff', handoff });
+          }
 
           // Stream the completion
+          const completion = await generateChatCompletion(messages, { signal: abort.signal });
           for await (const chunk of completion) {
+            if (abort.signal.aborted) break;
             const content = chunk.choices[0]?.delta?.content || '';
             if (content) {
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify({ type: 'content', content })}\n\n`)
-              );
+              answer += content;
+              send({ type: 'delta', content });
+            }
+            if (chunk.usage) {
+              send({
+                type: 'usage',
+                usage: {
+                  promptTokens: chunk.usage.prompt_tokens,
+                  completionTokens: chunk.usage.completion_tokens,
+                  totalTokens: chunk.usage.total_tokens,
+                },
+              });
             }
           }
+        } catch (error) {
+          // An abort also lands here, as the provider's abort error
+          if (!abort.signal.aborted) {
+            console.error('Chat stream error:', error);
+            send({ type: 'error', message: 'The answer was interrupted. Please try again.' });
+            failed = true;
+          }
+        }
+
+        if (!announced) {
+          await rollBack().catch((error) => console.error('Error rolling back unanswered message:', error));
+        } else if (!failed) {
+          // A stopped answer is kept as far as it got, even empty, so the id the
+          // client holds resolves. A failed save shouldn't cut off the answer.
+          let messageId: string | undefined;
+          try {
+            messageId = (
+              await conversations.appendMessage(conversation.id, {
+                id: answerMessageId,
+                role: 'assistant',
+                content: answer,
+                sources,
+                handoff,
+                safety: safetyNotice,
+                // Kept for feedback on a refusal, which shows no sources
+                heldBackSources: heldBackSources.length > 0 ? heldBackSources : undefined,
+              })
+            ).id;
+          } catch (error) {
+            console.error('Error saving assistant message:', error);
+          }
+          send({ type: 'done', messageId });
+        }
 
-          // Send done signal
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        try {
           controller.close();
-        } catch (error) {
-          controller.error(error);
+        } catch {
+          // Already closed by cancel()
         }
       },
+      cancel() {
+        abort.abort();
+      },
     });
 
     return new Response(stream, {
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/client-id';
+import { getConversationStore } from '@/lib/conversation-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () =>
+  NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const clientId = getClientId(req);
+  if (!clientId) return notFound();
+
+  try {
+    const conversation = await getConversationStore().getConversation(clientId, params.id);
+    return conversation ? NextResponse.json({ conversation }) : notFound();
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const clientId = getClientId(req);
+  if (!clientId) return notFound();
+
+  try {
+    const deleted = await getConversationStore().deleteConversation(clientId, params.id);
+    return deleted ? new Response(null, { status: 204 }) : notFound();
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
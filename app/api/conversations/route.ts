@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/client-id';
+import { getConversationStore } from '@/lib/conversation-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  const clientId = getClientId(req);
+  if (!clientId) {
+    return NextResponse.json({ conversations: [] });
+  }
+
+  try {
+    const conversations = await getConversationStore().listConversations(clientId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
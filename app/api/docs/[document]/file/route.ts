@@ -0,0 +1,37 @@
+import fs from 'fs/promises';
+import { NextRequest, NextResponse } from 'next/server';
+import { documentNameFromParam, getDocumentPdfPath } from '@/lib/document-pages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { document: string };
+}
+
+/**
+ * Serve the original PDF of an ingested document for the /docs viewer
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const filePath = await getDocumentPdfPath(documentNameFromParam(params.document));
+    if (!filePath) {
+      return NextResponse.json({ error: 'Document file not found' }, { status: 404 });
+    }
+
+    const file = await fs.readFile(filePath);
+    return new Response(file, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Document file API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/client-id';
+import { getConversationStore } from '@/lib/conversation-store';
+import { getFeedbackStore } from '@/lib/feedback-store';
+import { FeedbackRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Longer comments are cut, not rejected
+const MAX_COMMENT_CHARS = 2000;
+
+/**
+ * Rate an assistant answer. The question, answer and sources are copied from
+ * the stored conversation, not taken from the client.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { conversationId, messageId, rating, comment }: FeedbackRequest = await req.json();
+
+    if (!conversationId || !messageId) {
+      return NextResponse.json(
+        { error: 'conversationId and messageId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (rating !== 'up' && rating !== 'down') {
+      return NextResponse.json(
+        { error: 'rating must be "up" or "down"' },
+        { status: 400 }
+      );
+    }
+
+    const clientId = getClientId(req);
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Missing client id cookie' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await getConversationStore().getConversation(clientId, conversationId);
+    const index = conversation ? conversation.messages.findIndex((m) => m.id === messageId) : -1;
+    if (!conversation || index === -1 || conversation.messages[index].role !== 'assistant') {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const answer = conversation.messages[index];
+    const question = conversation.messages
+      .slice(0, index)
+      .reverse()
+      .find((m) => m.role === 'user');
+
+    const feedback = await getFeedbackStore().submit({
+      ownerId: clientId,
+      conversationId,
+      messageId,
+      rating,
+      comment: comment?.trim().slice(0, MAX_COMMENT_CHARS) || null,
+      question: question?.content || '',
+      answer: answer.content,
+      // A declined answer shows no sources: record what retrieval held back instead
+      sources: answer.sources?.length ? answer.sources : answer.heldBackSources || [],
+      // Answers without a handoff passed the confidence gate
+      decision: answer.handoff?.decision || 'answer',
+    });
+
+    return NextResponse.json({ feedback: { id: feedback.id, rating: feedback.rating, comment: feedback.comment } });
+  } catch (error) {
+    console.error('Feedback API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
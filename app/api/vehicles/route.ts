@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { listVehicles } from '@/lib/retrieval-filters';
+import { getVectorStore } from '@/lib/vector-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Vehicles the ingested documents are scoped to (vehicle selector options)
+ */
+export async function GET() {
+  try {
+    const vehicles = listVehicles(await getVectorStore().listDocuments());
+    return NextResponse.json({ vehicles });
+  } catch (error) {
+    console.error('Vehicles API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
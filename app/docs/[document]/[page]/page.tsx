@@ -0,0 +1,100 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { documentNameFromParam, getDocumentPage } from '@/lib/document-pages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface DocumentPageProps {
+  params: { document: string; page: string };
+  searchParams: { chunk?: string };
+}
+
+export async function generateMetadata({ params }: DocumentPageProps) {
+  return { title: `${documentNameFromParam(params.document)} • Page ${params.page} - VoltDrive Support` };
+}
+
+/**
+ * One page of an ingested document: the original PDF page when the file is
+ * still on disk, next to the extracted text with the cited chunk highlighted
+ */
+export default async function DocumentPageView({ params, searchParams }: DocumentPageProps) {
+  const document = documentNameFromParam(params.document);
+  const page = parseInt(params.page, 10);
+  if (!Number.isInteger(page) || page < 1) notFound();
+
+  const data = await getDocumentPage(document, page);
+  if (!data || !data.pages.includes(page)) notFound();
+
+  const cited = searchParams.chunk;
+  const index = data.pages.indexOf(page);
+  const previous = data.pages[index - 1];
+  const next = data.pages[index + 1];
+  const pageHref = (target: number) => `/docs/${encodeURIComponent(document)}/${target}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <Link href="/" className="text-sm text-voltdrive-blue hover:underline">
+              ← Back to chat
+            </Link>
+            <h1 className="text-xl font-bold text-gray-800 truncate">{document}</h1>
+            <p className="text-sm text-gray-500">
+              Page {page} of {data.pages[data.pages.length - 1]}
+            </p>
+          </div>
+          <nav className="flex items-center gap-2 text-sm">
+            {previous !== undefined ? (
+              <Link href={pageHref(previous)} className="px-3 py-1.5 border border-gray-200 rounded-lg bg-white hover:border-voltdrive-blue">
+                ← Page {previous}
+              </Link>
+            ) : null}
+            {next !== undefined ? (
+              <Link href={pageHref(next)} className="px-3 py-1.5 border border-gray-200 rounded-lg bg-white hover:border-voltdrive-blue">
+                Page {next} →
+              </Link>
+            ) : null}
+          </nav>
+        </div>
+      </header>
+
+      <main className={`max-w-6xl mx-auto p-6 grid gap-6 ${data.hasPdf ? 'lg:grid-cols-2' : ''}`}>
+        {data.hasPdf && (
+          <section className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <iframe
+              src={`/api/docs/${encodeURIComponent(document)}/file#page=${page}`}
+              title={`${document}, page ${page}`}
+              className="w-full h-[80vh]"
+            />
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold text-gray-500">Extracted text</h2>
+          {data.chunks.map((chunk, idx) => {
+            const isCited = Boolean(cited && chunk.chunkHash?.startsWith(cited));
+            return (
+              <article
+                key={idx}
+                id={isCited ? 'cited' : undefined}
+                className={`rounded-lg px-4 py-3 text-sm text-gray-800 whitespace-pre-wrap ${
+                  isCited
+                    ? 'bg-yellow-50 border-l-4 border-yellow-400 scroll-mt-6'
+                    : 'bg-white border border-gray-200'
+                }`}
+              >
+                {chunk.section && (
+                  <p className="text-xs font-semibold text-gray-500 mb-1">{chunk.section}</p>
+                )}
+                {isCited && <p className="text-xs font-semibold text-yellow-700 mb-1">Cited in answer</p>}
+                {chunk.content}
+              </article>
+            );
+          })}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,8 +1,17 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Message, Source } from '@/types';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Conversation, FeedbackRating, Handoff, Message, SafetyNotice, Source, VehicleOption } from '@/types';
 import MessageList from './MessageList';
+import ConversationSidebar from './ConversationSidebar';
+import VehicleSelector from './VehicleSelector';
+import { readChatStream } from '@/lib/chat-stream';
+import { isStoredMessage, localMessageId } from '@/lib/message-ids';
+
+// Remembers the open conversation so a refresh resumes it
+const ACTIVE_CONVERSATION_KEY = 'voltdrive:activeConversation';
+// Remembers the selected vehicle across conversations and reloads
+const VEHICLE_KEY = 'voltdrive:vehicle';
 
 // MOD: Updated with your requested prompts
 const suggestedPrompts = [
@@ -16,7 +25,13 @@ export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [vehicles, setVehicles] = useState<VehicleOption[]>([]);
+  const [vehicle, setVehicle] = useState<VehicleOption | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Aborts the answer in flight (stop button, leaving the page)
+  const abortRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const scrollToBottom = () => {
@@ -27,19 +42,170 @@ export default function ChatInterface() {
     scrollToBottom();
   }, [messages]);
 
-  const sendUserMessage = async (content: string) => {
+  // The server stops generating once the request is aborted
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/conversations');
+      if (response.ok) {
+        setConversations((await response.json()).conversations);
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  }, []);
+
+  const selectConversation = (id: string | null) => {
+    setConversationId(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  };
+
+  const openConversation = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        // Deleted or from another browser: fall back to a fresh chat
+        localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+        return;
+      }
+
+      const { conversation } = await response.json();
+      setMessages(
+        conversation.messages.map((m: Message) => ({ ...m, timestamp: new Date(m.timestamp) }))
+      );
+      setConversationId(conversation.id);
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversation.id);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadVehicles = async () => {
+      try {
+        const response = await fetch('/api/vehicles');
+        if (!response.ok) return;
+        const available: VehicleOption[] = (await response.json()).vehicles;
+        setVehicles(available);
+
+        // Restore the saved choice only if those documents are still ingested
+        const saved = JSON.parse(localStorage.getItem(VEHICLE_KEY) || 'null');
+        const match = saved && available.find(
+          (v) => v.vehicleModel === saved.vehicleModel && v.modelYear === saved.modelYear
+        );
+        setVehicle(match || null);
+      } catch (error) {
+        console.error('Error loading vehicles:', error);
+      }
+    };
+    loadVehicles();
+  }, []);
+
+  const selectVehicle = (selected: VehicleOption | null) => {
+    setVehicle(selected);
+    if (selected) {
+      localStorage.setItem(VEHICLE_KEY, JSON.stringify(selected));
+    } else {
+      localStorage.removeItem(VEHICLE_KEY);
+    }
+  };
+
+  useEffect(() => {
+    refreshConversations();
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (activeId) {
+      openConversation(activeId);
+    }
+  }, [refreshConversations, openConversation]);
+
+  const startNewConversation = () => {
+    selectConversation(null);
+    setMessages([]);
+    setInput('');
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (id === conversationId) {
+        startNewConversation();
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    } finally {
+      refreshConversations();
+    }
+  };
+
+  /**
+   * Send a question. With `replaceIndex`, the user message at that index and
+   * everything after it are replaced (edit & resend, regenerate).
+   */
+  const sendUserMessage = async (content: string, replaceIndex?: number) => {
     if (!content.trim() || isLoading) return;
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: localMessageId(),
       role: 'user',
       content: content.trim(),
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // The server replaces by stored id; a question it never confirmed is placed
+    // by how many stored messages precede it, so both histories stay in step
+    let replaceFrom: string | number | undefined;
+    if (replaceIndex !== undefined && conversationId) {
+      const replaced = messages[replaceIndex];
+      replaceFrom = isStoredMessage(replaced)
+        ? replaced.id
+        : messages.slice(0, replaceIndex).filter(isStoredMessage).length;
+    }
+
+    setMessages((prev) => [...(replaceIndex !== undefined ? prev.slice(0, replaceIndex) : prev), userMessage]);
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    let assistantMessage = '';
+    let sources: Source[] = [];
+    let handoff: Handoff | undefined;
+    let safety: SafetyNotice | undefined;
+    let assistantMessageId = localMessageId();
+    // The id the server saves the answer under, adopted if it is stopped before `done`
+    let reservedAnswerId: string | undefined;
+
+    // Create or update the streaming answer in place
+    const showAssistantMessage = () =>
+      setMessages((prev) => {
+        const existing = prev.find((m) => m.id === assistantMessageId);
+        if (existing) {
+          return prev.map((m) =>
+            m.id === assistantMessageId
+              ? { ...m, content: assistantMessage, sources, handoff, safety }
+              : m
+          );
+        } else {
+          return [
+            ...prev,
+            {
+              id: assistantMessageId,
+              role: 'assistant',
+              content: assistantMessage,
+              sources,
+              handoff,
+              safety,
+              timestamp: new Date(),
+            },
+          ];
+        }
+      });
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -48,90 +214,131 @@ export default function ChatInterface() {
         },
         body: JSON.stringify({
           message: userMessage.content,
-          conversationHistory: messages.slice(-6), // Last 3 exchanges
+          conversationId, // History is loaded server-side
+          // Applied to every turn, so switching vehicles mid-conversation takes effect immediately
+          filters: vehicle ? { vehicleModel: vehicle.vehicleModel, modelYear: vehicle.modelYear } : undefined,
+          replaceFrom,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
         throw new Error('Failed to get response');
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
+      if (!response.body) {
         throw new Error('No response body');
       }
 
-      let assistantMessage = '';
-      let sources: Source[] = [];
-      const assistantMessageId = Date.now().toString();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            
-            if (data === '[DONE]') {
-              continue;
+      for await (const event of readChatStream(response.body)) {
+        switch (event.type) {
+          case 'safety':
+            // Shown right away, before any answer text arrives
+            safety = event.notice;
+            showAssistantMessage();
+            break;
+          case 'conversation':
+            selectConversation(event.conversation.id);
+            // Switch to the stored id so the question can be edited later
+            if (event.userMessageId) {
+              const storedId = event.userMessageId;
+              setMessages((prev) => prev.map((m) => (m.id === userMessage.id ? { ...m, id: storedId } : m)));
             }
-
-            try {
-              const parsed = JSON.parse(data);
-
-              if (parsed.type === 'sources') {
-                sources = parsed.sources;
-              } else if (parsed.type === 'content') {
-                assistantMessage += parsed.content;
-                
-                // Update message in real-time
-                setMessages((prev) => {
-                  const existing = prev.find((m) => m.id === assistantMessageId);
-                  if (existing) {
-                    return prev.map((m) =>
-                      m.id === assistantMessageId
-                        ? { ...m, content: assistantMessage, sources }
-                        : m
-                    );
-                  } else {
-                    return [
-                      ...prev,
-                      {
-                        id: assistantMessageId,
-                        role: 'assistant',
-                        content: assistantMessage,
-                        sources,
-                        timestamp: new Date(),
-                      },
-                    ];
-                  }
-                });
-              }
-            } catch (error) {
-              console.error('Error parsing SSE data:', error);
+            reservedAnswerId = event.answerMessageId;
+            break;
+          case 'query':
+            if (event.rewrote) {
+              console.debug(`Retrieval query rewritten: "${event.original}" → "${event.rewritten}"`);
+            }
+            break;
+          case 'sources':
+            sources = event.sources;
+            break;
+          case 'handoff':
+            handoff = event.handoff;
+            break;
+          case 'delta':
+            assistantMessage += event.content;
+            // Update message in real-time
+            showAssistantMessage();
+            break;
+          case 'usage':
+            console.debug(`Tokens: ${event.usage.promptTokens} prompt + ${event.usage.completionTokens} completion`);
+            break;
+          case 'done':
+            if (event.messageId) {
+              const localId = assistantMessageId;
+              const storedId = event.messageId;
+              assistantMessageId = storedId;
+              setMessages((prev) => prev.map((m) => (m.id === localId ? { ...m, id: storedId } : m)));
             }
-          }
+            break;
+          case 'error':
+            throw new Error(event.message);
         }
       }
     } catch (error) {
+      // Stopped on purpose: keep whatever arrived, no error bubble. Once the
+      // server reserved an id it saves the answer, even empty, so show it too.
+      if (abortController.signal.aborted) {
+        if (reservedAnswerId && assistantMessageId !== reservedAnswerId) {
+          const localId = assistantMessageId;
+          const storedId = reservedAnswerId;
+          showAssistantMessage();
+          setMessages((prev) => prev.map((m) => (m.id === localId ? { ...m, id: storedId } : m)));
+        }
+        return;
+      }
+
       console.error('Error:', error);
       setMessages((prev) => [
         ...prev,
         {
-          id: Date.now().toString(),
+          id: localMessageId(),
           role: 'assistant',
           content: 'Sorry, I encountered an error. Please try again.',
           timestamp: new Date(),
         },
       ]);
     } finally {
+      if (abortRef.current === abortController) {
+        abortRef.current = null;
+      }
       setIsLoading(false);
+      refreshConversations();
+    }
+  };
+
+  const submitFeedback = async (message: Message, rating: FeedbackRating, comment?: string) => {
+    if (!conversationId) return false;
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId, messageId: message.id, rating, comment }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error sending feedback:', error);
+      return false;
+    }
+  };
+
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
+  const editMessage = (index: number, content: string) => {
+    sendUserMessage(content, index);
+  };
+
+  // Ask the last question again, replacing the answer it got
+  const regenerate = () => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        sendUserMessage(messages[i].content, i);
+        return;
+      }
     }
   };
 
@@ -154,105 +361,140 @@ export default function ChatInterface() {
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4">
-      <div className="flex flex-col w-full max-w-4xl h-[90vh] bg-white rounded-2xl shadow-xl overflow-hidden">
-        
-        {/* Header (with logo) */}
-        <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center gap-3 flex-shrink-0">
-          <div className="w-10 h-10 rounded-lg flex items-center justify-center overflow-hidden">
-            <img 
-              src="/logo.png" 
-              alt="VoltDrive Logo" 
-              className="w-full h-full object-cover" 
+      <div className="flex w-full max-w-6xl h-[90vh] bg-white rounded-2xl shadow-xl overflow-hidden">
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={conversationId}
+          disabled={isLoading}
+          onSelect={openConversation}
+          onNew={startNewConversation}
+          onDelete={deleteConversation}
+        />
+
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Header (with logo) */}
+          <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center gap-3 flex-shrink-0">
+            <div className="w-10 h-10 rounded-lg flex items-center justify-center overflow-hidden">
+              <img 
+                src="/logo.png" 
+                alt="VoltDrive Logo" 
+                className="w-full h-full object-cover" 
+              />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">VoltDrive Support</h1>
+              <p className="text-sm text-gray-500">AI-powered assistance for your EV</p>
+            </div>
+            <VehicleSelector
+              vehicles={vehicles}
+              value={vehicle}
+              disabled={isLoading}
+              onChange={selectVehicle}
             />
-          </div>
-          <div>
-            <h1 className="text-xl font-bold text-gray-900">VoltDrive Support</h1>
-            <p className="text-sm text-gray-500">AI-powered assistance for your EV</p>
-          </div>
-        </header>
-
-        {/* Messages */}
-        <div className="flex-1 overflow-y-auto flex flex-col p-6 bg-transparent">
-          {messages.length === 0 && !isLoading ? (
-            // Welcome Screen
-            <div className="flex flex-col items-center justify-center h-full text-center">
-              <div className="w-24 h-24 mb-4">
-                <img 
-                  src="/logo.png" 
-                  alt="VoltDrive Logo" 
-                  className="w-full h-full object-contain"
-                />
-              </div>
-              <h2 className="text-2xl font-semibold text-gray-800">
-                Welcome to VoltDrive Support
-              </h2>
-              <p className="mt-1 text-gray-500">
-                Ask me anything about your VoltDrive vehicle to get started.
-              </p>
+          </header>
+
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto flex flex-col p-6 bg-transparent">
+            {messages.length === 0 && !isLoading ? (
+              // Welcome Screen
+              <div className="flex flex-col items-center justify-center h-full text-center">
+                <div className="w-24 h-24 mb-4">
+                  <img 
+                    src="/logo.png" 
+                    alt="VoltDrive Logo" 
+                    className="w-full h-full object-contain"
+                  />
+                </div>
+                <h2 className="text-2xl font-semibold text-gray-800">
+                  Welcome to VoltDrive Support
+                </h2>
+                <p className="mt-1 text-gray-500">
+                  Ask me anything about your VoltDrive vehicle to get started.
+                </p>
               
-              {/* MOD: Suggested Prompts - now in a grid for 4 items */}
-              <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-2 w-full max-w-md">
-                {suggestedPrompts.map((prompt) => (
-                  <button
-                    key={prompt}
-                    onClick={() => handleSuggestionClick(prompt)}
-                    className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors"
-                  >
-                    {prompt}
-                  </button>
-                ))}
+                {/* MOD: Suggested Prompts - now in a grid for 4 items */}
+                <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-2 w-full max-w-md">
+                  {suggestedPrompts.map((prompt) => (
+                    <button
+                      key={prompt}
+                      onClick={() => handleSuggestionClick(prompt)}
+                      className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors"
+                    >
+                      {prompt}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
-          ) : (
-            // Message List
-            <div className="space-y-4">
-              <MessageList messages={messages} isLoading={isLoading} />
-              <div ref={messagesEndRef} />
-            </div>
-          )}
-        </div>
+            ) : (
+              // Message List
+              <div className="space-y-4">
+                <MessageList
+                  messages={messages}
+                  isLoading={isLoading}
+                  onEdit={editMessage}
+                  onRegenerate={regenerate}
+                  onFeedback={submitFeedback}
+                />
+                <div ref={messagesEndRef} />
+              </div>
+            )}
+          </div>
 
 
-        {/* Input */}
-        <div className="bg-white border-t border-gray-100 px-6 py-4">
-          <form onSubmit={handleSubmit} className="flex gap-3 items-end">
-            <div className="flex-1 relative">
-              <textarea
-                ref={textareaRef}
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="Ask me about your VoltDrive vehicle..."
-                rows={1}
-                className="w-full px-4 py-3 pr-4 border border-gray-200 rounded-xl focus:outline-none focus:ring-1 focus:ring-voltdrive-blue focus:border-transparent resize-none"
-                style={{ minHeight: '52px', maxHeight: '200px' }}
-                disabled={isLoading}
-              />
-            </div>
-            
-            <button
-              type="submit"
-              disabled={!input.trim() || isLoading}
-              className="flex-shrink-0 h-12 w-12 flex items-center justify-center bg-voltdrive-blue text-white rounded-xl font-medium hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-voltdrive-blue focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              <svg
-                className="w-5 h-5"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+          {/* Input */}
+          <div className="bg-white border-t border-gray-100 px-6 py-4">
+            <form onSubmit={handleSubmit} className="flex gap-3 items-end">
+              <div className="flex-1 relative">
+                <textarea
+                  ref={textareaRef}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Ask me about your VoltDrive vehicle..."
+                  rows={1}
+                  className="w-full px-4 py-3 pr-4 border border-gray-200 rounded-xl focus:outline-none focus:ring-1 focus:ring-voltdrive-blue focus:border-transparent resize-none"
+                  style={{ minHeight: '52px', maxHeight: '200px' }}
+                  disabled={isLoading}
                 />
-              </svg>
-            </button>
-          </form>
-          <p className="text-xs text-gray-500 mt-2 text-center">
-            Press Enter to send, Shift+Enter for new line
-          </p>
+              </div>
+            
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGenerating}
+                  title="Stop generating"
+                  className="flex-shrink-0 h-12 w-12 flex items-center justify-center bg-gray-800 text-white rounded-xl font-medium hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-800 focus:ring-offset-2 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="5" y="5" width="14" height="14" rx="2" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="flex-shrink-0 h-12 w-12 flex items-center justify-center bg-voltdrive-blue text-white rounded-xl font-medium hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-voltdrive-blue focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                    />
+                  </svg>
+                </button>
+              )}
+            </form>
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              Press Enter to send, Shift+Enter for new line
+            </p>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,88 @@
+'use client';
+
+import { Conversation } from '@/types';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+}
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onDelete,
+}: ConversationSidebarProps) {
+  return (
+    <aside className="hidden md:flex flex-col w-64 flex-shrink-0 border-r border-gray-200 bg-gray-50">
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full px-3 py-2 bg-voltdrive-blue text-white rounded-lg text-sm font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          + New conversation
+        </button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 ? (
+          <p className="px-2 py-4 text-xs text-gray-500 text-center">
+            Your past conversations will appear here.
+          </p>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-lg px-2 py-2 text-sm cursor-pointer transition-colors ${
+                conversation.id === activeId
+                  ? 'bg-white border border-gray-200 text-gray-900'
+                  : 'text-gray-700 hover:bg-white'
+              }`}
+              onClick={() => !disabled && onSelect(conversation.id)}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{conversation.title}</p>
+                <p className="text-xs text-gray-400">{formatUpdatedAt(conversation.updatedAt)}</p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!disabled && window.confirm('Delete this conversation?')) {
+                    onDelete(conversation.id);
+                  }
+                }}
+                disabled={disabled}
+                aria-label={`Delete conversation: ${conversation.title}`}
+                className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-opacity"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </nav>
+    </aside>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { FeedbackRating } from '@/types';
+
+interface FeedbackControlsProps {
+  // Resolves false when the feedback couldn't be saved
+  onSubmit: (rating: FeedbackRating, comment?: string) => Promise<boolean>;
+}
+
+const ThumbIcon = ({ down }: { down?: boolean }) => (
+  <svg className={`w-4 h-4 ${down ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+    />
+  </svg>
+);
+
+/**
+ * Thumbs up / down under an answer, with an optional comment box
+ */
+export default function FeedbackControls({ onSubmit }: FeedbackControlsProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [commenting, setCommenting] = useState(false);
+  const [comment, setComment] = useState('');
+  const [status, setStatus] = useState<'idle' | 'saving' | 'thanks' | 'error'>('idle');
+
+  const rate = async (value: FeedbackRating) => {
+    setRating(value);
+    // A thumbs down invites a comment on what was wrong
+    setCommenting(value === 'down');
+    setStatus('saving');
+    setStatus((await onSubmit(value)) ? 'thanks' : 'error');
+  };
+
+  const sendComment = async () => {
+    if (!rating || !comment.trim()) return;
+    setStatus('saving');
+    const saved = await onSubmit(rating, comment.trim());
+    setStatus(saved ? 'thanks' : 'error');
+    if (saved) setCommenting(false);
+  };
+
+  const buttonClass = (value: FeedbackRating) =>
+    `p-1 rounded hover:bg-gray-100 ${rating === value ? 'text-voltdrive-blue' : 'text-gray-400 hover:text-gray-600'}`;
+
+  return (
+    <div className="mt-3 text-xs text-gray-500">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => rate('up')}
+          disabled={status === 'saving'}
+          aria-pressed={rating === 'up'}
+          title="Helpful"
+          className={buttonClass('up')}
+        >
+          <ThumbIcon />
+        </button>
+        <button
+          type="button"
+          onClick={() => rate('down')}
+          disabled={status === 'saving'}
+          aria-pressed={rating === 'down'}
+          title="Wrong or unhelpful"
+          className={buttonClass('down')}
+        >
+          <ThumbIcon down />
+        </button>
+        {status === 'thanks' && <span className="ml-1">Thanks for the feedback</span>}
+        {status === 'error' && <span className="ml-1 text-red-600">Couldn&apos;t save feedback</span>}
+        {rating && !commenting && (
+          <button type="button" onClick={() => setCommenting(true)} className="ml-2 hover:text-voltdrive-blue">
+            {comment ? 'Edit comment' : 'Add a comment'}
+          </button>
+        )}
+      </div>
+
+      {commenting && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={rating === 'down' ? 'What was wrong or missing? (optional)' : 'Anything to add? (optional)'}
+            rows={2}
+            maxLength={2000}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-voltdrive-blue resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={sendComment}
+              disabled={!comment.trim() || status === 'saving'}
+              className="px-3 py-1 rounded-lg bg-voltdrive-blue text-white font-medium hover:opacity-90 disabled:opacity-50"
+            >
+              Send
+            </button>
+            <button
+              type="button"
+              onClick={() => setCommenting(false)}
+              className="px-3 py-1 rounded-lg border border-gray-200 hover:border-gray-300"
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useId, useState } from 'react';
+import type { ExpectedSource } from '@/lib/retrieval-metrics';
+
+interface FeedbackReviewProps {
+  feedbackId: string;
+  expected: ExpectedSource[] | null;
+  // Ingested document names offered as suggestions
+  documents: string[];
+}
+
+interface Row {
+  document: string;
+  page: string;
+}
+
+const toRows = (expected: ExpectedSource[] | null): Row[] =>
+  expected?.length
+    ? expected.map((source) => ({ document: source.document, page: source.page ? String(source.page) : '' }))
+    : [{ document: '', page: '' }];
+
+/**
+ * Editor for the sources a thumbs-down answer should have used; saved
+ * entries are included in the JSONL export
+ */
+export default function FeedbackReview({ feedbackId, expected, documents }: FeedbackReviewProps) {
+  const [rows, setRows] = useState<Row[]>(toRows(expected));
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const listId = useId();
+
+  const updateRow = (index: number, change: Partial<Row>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...change } : row)));
+    setStatus('idle');
+  };
+
+  const save = async (sources: Row[]) => {
+    setStatus('saving');
+    const cleaned = sources
+      .filter((row) => row.document.trim())
+      .map((row) => ({ document: row.document.trim(), page: parseInt(row.page, 10) || undefined }));
+
+    try {
+      const response = await fetch(`/api/admin/feedback/${feedbackId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expected: cleaned.length > 0 ? cleaned : null }),
+      });
+      if (!response.ok) {
+        throw new Error(`Saving review failed: ${response.status}`);
+      }
+      setRows(toRows(cleaned));
+      setStatus('saved');
+    } catch (error) {
+      console.error('Error saving review:', error);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <datalist id={listId}>
+        {documents.map((document) => (
+          <option key={document} value={document} />
+        ))}
+      </datalist>
+
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            list={listId}
+            value={row.document}
+            onChange={(e) => updateRow(index, { document: e.target.value })}
+            placeholder="Expected document"
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded text-sm focus:outline-none focus:ring-1 focus:ring-voltdrive-blue"
+          />
+          <input
+            type="number"
+            min={1}
+            value={row.page}
+            onChange={(e) => updateRow(index, { page: e.target.value })}
+            placeholder="Page (any)"
+            className="w-28 px-2 py-1 border border-gray-200 rounded text-sm focus:outline-none focus:ring-1 focus:ring-voltdrive-blue"
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => setRows((prev) => [...prev, { document: '', page: '' }])}
+          className="px-2 py-1 border border-gray-200 rounded hover:border-voltdrive-blue"
+        >
+          Add source
+        </button>
+        <button
+          type="button"
+          onClick={() => save(rows)}
+          disabled={status === 'saving'}
+          className="px-2 py-1 rounded bg-voltdrive-blue text-white font-medium hover:opacity-90 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => save([])}
+          disabled={status === 'saving'}
+          className="px-2 py-1 border border-gray-200 rounded hover:border-red-400 disabled:opacity-50"
+        >
+          Clear
+        </button>
+        {status === 'saved' && <span className="text-green-700">Saved</span>}
+        {status === 'error' && <span className="text-red-700">Couldn&apos;t save, try again</span>}
+      </div>
+    </div>
+  );
+}
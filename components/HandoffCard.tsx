@@ -0,0 +1,86 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { Handoff } from '@/types';
+
+// Where "Email support" sends the case; without it the card only offers copying the summary
+const SUPPORT_EMAIL = process.env.NEXT_PUBLIC_SUPPORT_EMAIL;
+
+/**
+ * "Escalate to a VoltDrive agent" card shown under caveated or declined
+ * answers, with an editable, pre-filled case summary
+ */
+export default function HandoffCard({ handoff }: { handoff: Handoff }) {
+  const [open, setOpen] = useState(false);
+  const [summary, setSummary] = useState(handoff.summary);
+  const [copied, setCopied] = useState(false);
+  const summaryId = useId();
+
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying case summary:', error);
+    }
+  };
+
+  const mailto = SUPPORT_EMAIL
+    ? `mailto:${SUPPORT_EMAIL}?subject=${encodeURIComponent('VoltDrive support request')}&body=${encodeURIComponent(summary)}`
+    : null;
+
+  return (
+    <div className="mt-3 p-3 border border-amber-200 bg-amber-50 rounded-lg text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold text-amber-900">
+            {handoff.decision === 'refuse' ? "This isn't covered in the documentation" : 'This answer may be incomplete'}
+          </p>
+          <p className="text-xs text-amber-800">A VoltDrive agent can pick this up with the details below.</p>
+        </div>
+        {!open && (
+          <button
+            type="button"
+            onClick={() => setOpen(true)}
+            className="shrink-0 px-3 py-1.5 rounded-lg bg-voltdrive-blue text-white text-xs font-medium hover:opacity-90"
+          >
+            Escalate to a VoltDrive agent
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <label className="block text-xs font-semibold text-amber-900" htmlFor={summaryId}>
+            Case summary
+          </label>
+          <textarea
+            id={summaryId}
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            rows={Math.min(12, summary.split('\n').length + 1)}
+            className="w-full px-3 py-2 border border-amber-200 rounded-lg bg-white text-xs text-gray-800 font-mono focus:outline-none focus:ring-2 focus:ring-voltdrive-blue"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={copySummary}
+              className="px-3 py-1.5 border border-amber-300 rounded-lg bg-white text-xs font-medium text-amber-900 hover:border-voltdrive-blue"
+            >
+              {copied ? 'Copied!' : 'Copy summary'}
+            </button>
+            {mailto && (
+              <a
+                href={mailto}
+                className="px-3 py-1.5 rounded-lg bg-voltdrive-blue text-white text-xs font-medium hover:opacity-90"
+              >
+                Email support
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
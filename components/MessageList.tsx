@@ -1,16 +1,168 @@
 'use client';
 
-import { Message } from '@/types';
+import { useState } from 'react';
+import { FeedbackRating, Message } from '@/types';
 import SourceCitation from './SourceCitation';
+import HandoffCard from './HandoffCard';
+import SafetyBanner from './SafetyBanner';
+import FeedbackControls from './FeedbackControls';
 import remarkGfm from 'remark-gfm';
 import ReactMarkdown from 'react-markdown'; // MOD: Added this import
+import { citationLinkNumber, linkCitations } from '@/lib/citations';
+import { isStoredMessage } from '@/lib/message-ids';
 
 interface MessageListProps {
   messages: Message[];
   isLoading?: boolean;
+  // Resend the user message at `index` with new text, dropping everything after it
+  onEdit?: (index: number, content: string) => void;
+  // Ask the last question again
+  onRegenerate?: () => void;
+  // Rate a stored answer; resolves false when saving failed
+  onFeedback?: (message: Message, rating: FeedbackRating, comment?: string) => Promise<boolean>;
 }
 
-export default function MessageList({ messages, isLoading }: MessageListProps) {
+/**
+ * User question with an "Edit" action that resends it from that point
+ */
+function UserMessage({ message, onEdit }: { message: Message; onEdit?: (content: string) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  if (editing && onEdit) {
+    const submit = () => {
+      if (!draft.trim()) return;
+      setEditing(false);
+      onEdit(draft.trim());
+    };
+
+    return (
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            } else if (e.key === 'Escape') {
+              setEditing(false);
+            }
+          }}
+          rows={Math.min(8, draft.split('\n').length + 1)}
+          autoFocus
+          className="w-full min-w-[16rem] px-3 py-2 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-white resize-none"
+        />
+        <div className="flex justify-end gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(message.content);
+              setEditing(false);
+            }}
+            className="px-3 py-1 rounded-lg border border-white/60 hover:bg-white/10"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!draft.trim()}
+            className="px-3 py-1 rounded-lg bg-white text-voltdrive-blue font-medium disabled:opacity-50"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="whitespace-pre-wrap break-words">
+        {message.content}
+      </div>
+      {onEdit && (
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(message.content);
+            setEditing(true);
+          }}
+          className="mt-1 text-xs text-white/70 hover:text-white"
+        >
+          Edit
+        </button>
+      )}
+    </>
+  );
+}
+
+/**
+ * Assistant answer with "[1]" markers rendered as superscripts that
+ * highlight and expand the matching source chip
+ */
+function AssistantMessage({ message }: { message: Message }) {
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+  const sources = message.sources || [];
+  const toggleSource = (number: number) => setActiveSource((current) => (current === number ? null : number));
+
+  return (
+    <>
+      {message.safety && <SafetyBanner notice={message.safety} />}
+
+      <div className="prose prose-sm max-w-none"> {/* `prose` styles the markdown */}
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          components={{
+            a: ({ node, href, children, ...props }) => {
+              const number = citationLinkNumber(href, message.id);
+              if (number !== null) {
+                return (
+                  <sup>
+                    <button
+                      type="button"
+                      onClick={() => toggleSource(number)}
+                      title={`${sources[number - 1]?.document}, page ${sources[number - 1]?.page}`}
+                      className={`mx-0.5 px-1 rounded font-semibold no-underline ${
+                        activeSource === number
+                          ? 'bg-voltdrive-blue text-white'
+                          : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                      }`}
+                    >
+                      {number}
+                    </button>
+                  </sup>
+                );
+              }
+              return (
+                <a href={href} {...props}>
+                  {children}
+                </a>
+              );
+            },
+          }}
+        >
+          {linkCitations(message.content, sources.length, message.id)}
+        </ReactMarkdown>
+      </div>
+
+      {message.sources && (
+        <SourceCitation
+          messageId={message.id}
+          sources={message.sources}
+          content={message.content}
+          activeSource={activeSource}
+          onSelect={toggleSource}
+        />
+      )}
+
+      {message.handoff && <HandoffCard handoff={message.handoff} />}
+    </>
+  );
+}
+
+export default function MessageList({ messages, isLoading, onEdit, onRegenerate, onFeedback }: MessageListProps) {
   return (
     <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6">
       {messages.length === 0 && !isLoading ? (
@@ -62,7 +214,7 @@ export default function MessageList({ messages, isLoading }: MessageListProps) {
         </div>
       ) : (
         <>
-          {messages.map((message) => (
+          {messages.map((message, index) => (
             <div
               key={message.id}
               className={`flex ${
@@ -81,22 +233,36 @@ export default function MessageList({ messages, isLoading }: MessageListProps) {
                   - Users get the plain text div.
                 */}
                 {message.role === 'assistant' ? (
-                  <div className="prose prose-sm max-w-none"> {/* `prose` styles the markdown */}
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                    >
-                      {message.content}
-                    </ReactMarkdown>
-                  </div>
+                  <AssistantMessage message={message} />
                 ) : (
-                  <div className="whitespace-pre-wrap break-words">
-                    {message.content}
-                  </div>
+                  <UserMessage
+                    message={message}
+                    onEdit={onEdit && !isLoading ? (content) => onEdit(index, content) : undefined}
+                  />
                 )}
                 {/* END MOD */}
 
-                {message.role === 'assistant' && message.sources && (
-                  <SourceCitation sources={message.sources} />
+                {/* Only answers the server has stored can be rated */}
+                {onFeedback && message.role === 'assistant' && isStoredMessage(message) && (
+                  <FeedbackControls onSubmit={(rating, comment) => onFeedback(message, rating, comment)} />
+                )}
+
+                {onRegenerate && !isLoading && message.role === 'assistant' && index === messages.length - 1 && (
+                  <button
+                    type="button"
+                    onClick={onRegenerate}
+                    className="mt-3 flex items-center gap-1 text-xs text-gray-500 hover:text-voltdrive-blue"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                      />
+                    </svg>
+                    Regenerate
+                  </button>
                 )}
               </div>
             </div>
@@ -0,0 +1,30 @@
+'use client';
+
+import { SafetyNotice } from '@/types';
+
+/**
+ * Safety instructions pinned above answers to safety-critical questions.
+ * Deliberately has no close button.
+ */
+export default function SafetyBanner({ notice }: { notice: SafetyNotice }) {
+  return (
+    <div role="alert" className="mb-3 p-3 border-l-4 border-red-600 bg-red-50 rounded text-sm text-red-900">
+      <p className="flex items-center gap-2 font-bold">
+        <svg className="w-5 h-5 text-red-600 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z"
+          />
+        </svg>
+        {notice.title}
+      </p>
+      <ul className="mt-1 ml-7 list-disc space-y-1">
+        {notice.steps.map((step, idx) => (
+          <li key={idx}>{step}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,46 +1,91 @@
 'use client';
 
 import { Source } from '@/types';
+import { citedSourceNumbers, documentPageHref, sourceAnchorId } from '@/lib/citations';
 
 interface SourceCitationProps {
+  // Scopes the chip ids the answer's citation links point at
+  messageId: string;
   sources: Source[];
+  // Answer text, used to list only the sources it cites
+  content: string;
+  // 1-based number of the highlighted source, if any
+  activeSource?: number | null;
+  onSelect?: (number: number) => void;
 }
 
-export default function SourceCitation({ sources }: SourceCitationProps) {
+export default function SourceCitation({ messageId, sources, content, activeSource, onSelect }: SourceCitationProps) {
   if (!sources || sources.length === 0) return null;
 
+  // Answers without markers (older conversations) still list every source
+  const cited = citedSourceNumbers(content, sources.length);
+  const numbers = cited.length > 0 ? cited : sources.map((_, idx) => idx + 1);
+  const active = activeSource && numbers.includes(activeSource) ? sources[activeSource - 1] : null;
+
   return (
     <div className="mt-3 pt-3 border-t border-gray-200">
       <p className="text-xs font-semibold text-gray-500 mb-2">Sources:</p>
       <div className="flex flex-wrap gap-2">
-        {sources.map((source, idx) => (
-          <div
-            key={idx}
-            className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-blue-50 border border-blue-200 rounded-full text-xs"
-          >
-            <svg
-              className="w-3.5 h-3.5 text-blue-600"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-              />
-            </svg>
-            <span className="font-medium text-blue-700">
-              {source.document}
-            </span>
-            <span className="text-blue-600">• Page {source.page}</span>
-            <span className="text-blue-500 text-[10px]">
-              ({Math.round(source.similarity * 100)}% match)
-            </span>
-          </div>
-        ))}
+        {numbers.map((number) => {
+          const source = sources[number - 1];
+          const isActive = number === activeSource;
+          return (
+            <div key={number} className="inline-flex items-center gap-1">
+              <button
+                id={sourceAnchorId(messageId, number)}
+                type="button"
+                onClick={() => onSelect?.(number)}
+                aria-expanded={isActive}
+                className={`inline-flex items-center gap-1.5 px-2.5 py-1 border rounded-full text-xs transition-colors ${
+                  isActive
+                    ? 'bg-voltdrive-blue border-voltdrive-blue text-white'
+                    : 'bg-blue-50 border-blue-200 hover:border-blue-400'
+                }`}
+              >
+                <span className={`font-semibold ${isActive ? 'text-white' : 'text-blue-700'}`}>[{number}]</span>
+                <span className={`font-medium ${isActive ? 'text-white' : 'text-blue-700'}`}>
+                  {source.document}
+                </span>
+                <span className={isActive ? 'text-blue-100' : 'text-blue-600'}>• Page {source.page}</span>
+                {source.similarity !== undefined && (
+                  <span className={`text-[10px] ${isActive ? 'text-blue-100' : 'text-blue-500'}`}>
+                    ({Math.round(source.similarity * 100)}% match)
+                  </span>
+                )}
+              </button>
+              <a
+                href={documentPageHref(source)}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={`Open ${source.document}, page ${source.page}`}
+                className="p-1 text-blue-500 hover:text-voltdrive-blue"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                  />
+                </svg>
+              </a>
+            </div>
+          );
+        })}
       </div>
+      {active && (
+        <blockquote className="mt-2 px-3 py-2 bg-blue-50 border-l-4 border-voltdrive-blue rounded text-xs text-gray-700">
+          <div className="whitespace-pre-wrap max-h-48 overflow-y-auto">{active.content}</div>
+          <a
+            href={documentPageHref(active)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block mt-2 font-medium text-voltdrive-blue hover:underline"
+          >
+            View page {active.page} in {active.document} →
+          </a>
+        </blockquote>
+      )}
     </div>
   );
 }
@@ -0,0 +1,42 @@
+'use client';
+
+import { VehicleOption } from '@/types';
+
+interface VehicleSelectorProps {
+  vehicles: VehicleOption[];
+  value: VehicleOption | null;
+  disabled?: boolean;
+  onChange: (vehicle: VehicleOption | null) => void;
+}
+
+function vehicleKey(vehicle: VehicleOption): string {
+  return `${vehicle.vehicleModel}|${vehicle.modelYear ?? ''}`;
+}
+
+function vehicleLabel(vehicle: VehicleOption): string {
+  return vehicle.modelYear ? `${vehicle.vehicleModel} (${vehicle.modelYear})` : vehicle.vehicleModel;
+}
+
+export default function VehicleSelector({ vehicles, value, disabled, onChange }: VehicleSelectorProps) {
+  // Nothing to choose from until documents are tagged with a vehicle_model
+  if (vehicles.length === 0) return null;
+
+  return (
+    <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+      <span className="hidden sm:inline">My vehicle</span>
+      <select
+        value={value ? vehicleKey(value) : ''}
+        disabled={disabled}
+        onChange={(e) => onChange(vehicles.find((v) => vehicleKey(v) === e.target.value) || null)}
+        className="px-3 py-2 border border-gray-200 rounded-lg bg-white text-gray-800 focus:outline-none focus:ring-1 focus:ring-voltdrive-blue disabled:opacity-50"
+      >
+        <option value="">All vehicles</option>
+        {vehicles.map((vehicle) => (
+          <option key={vehicleKey(vehicle)} value={vehicleKey(vehicle)}>
+            {vehicleLabel(vehicle)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
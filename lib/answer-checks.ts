@@ -0,0 +1,160 @@
+import { Source } from '@/types';
+import { CITATION_MARKER } from './citations';
+
+/**
+ * Heuristic checks of a generated answer against the sources it was given
+ * (scripts/eval-answers.ts). Support is lexical: the share of a sentence's
+ * content words that appear in the source text.
+ */
+
+export interface Citation {
+  /** 1-based source number, or null when the reference matched no source */
+  source: number | null;
+  /** The reference as written ("Source 2", "[2]", "Troubleshooting Guide, page 3") */
+  label: string;
+  sentence: string;
+  /** Content-word overlap between the sentence and the cited source */
+  support: number;
+}
+
+export interface AnswerCheck {
+  citations: Citation[];
+  /** Distinct source numbers cited that exist */
+  citedSources: number[];
+  /** References to sources that weren't retrieved (e.g. "Source 7" with 5 sources) */
+  invalidCitations: string[];
+  /** Valid citations whose sentence isn't supported by the cited source */
+  unsupportedCitations: Citation[];
+  /** Share of claim sentences supported by at least one retrieved source */
+  faithfulness: number;
+  unsupportedSentences: string[];
+  /** The answer says the documentation doesn't cover the question */
+  saysNotCovered: boolean;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'with', 'from', 'was', 'are', 'been', 'have', 'has', 'had',
+  'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'can', 'about', 'into',
+  'then', 'there', 'here', 'when', 'where', 'why', 'how', 'all', 'each', 'more', 'most',
+  'other', 'some', 'such', 'only', 'own', 'same', 'than', 'too', 'very', 'just', 'this',
+  'that', 'these', 'those', 'you', 'your', 'yours', 'our', 'its', 'they', 'them', 'their',
+  'what', 'which', 'who', 'also', 'not', 'any', 'if', 'make', 'sure', 'please', 'help',
+  'according', 'source', 'sources', 'page', 'pages', 'documentation', 'mentioned', 'states',
+]);
+
+const NOT_COVERED = /\b((couldn't|could not|can't|cannot|unable to) find|(isn't|is not|aren't|are not|not) (fully |specifically )?(covered|mentioned|included|addressed)|(don't|do not) have (specific |any )?information|no (specific )?information|(doesn't|does not) (cover|mention|include))\b/i;
+
+const SOURCE_REFERENCE = /\bSources?\s+(\d+(?:\s*(?:,|and|&)\s*\d+)*)/gi;
+const PAGE_REFERENCE = /\bpages?\s+(\d+)/gi;
+
+function contentWords(text: string, ignore: Set<string>): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.'-][a-z0-9]+)*/g) || []).filter(
+    (word) => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word) && !ignore.has(word)
+  );
+}
+
+function overlap(words: string[], sourceWords: Set<string>): number {
+  if (words.length === 0) return 0;
+  return words.filter((word) => sourceWords.has(word)).length / words.length;
+}
+
+/**
+ * Split into sentences, dropping markdown list/heading/bold markers
+ */
+function splitSentences(answer: string): string[] {
+  return answer
+    .split('\n')
+    .map((line) => line.replace(/^\s*([-*+]|\d+[.)]|#+)\s+/, '').replace(/\*\*|__|`/g, '').trim())
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z(\[])/))
+    .filter(Boolean);
+}
+
+/**
+ * References in one sentence: "Source N" / "[N]" numbers, or a document name
+ * followed by "page P" (matched to retrieved sources by page and name)
+ */
+function findReferences(sentence: string, sources: Source[]): Array<{ source: number | null; label: string }> {
+  const references: Array<{ source: number | null; label: string }> = [];
+  const numbered = (numbers: string, label: string) => {
+    for (const n of numbers.match(/\d+/g) || []) {
+      const index = parseInt(n, 10);
+      references.push({ source: index >= 1 && index <= sources.length ? index : null, label: label.replace(numbers, n) });
+    }
+  };
+
+  for (const match of sentence.matchAll(SOURCE_REFERENCE)) numbered(match[1], match[0]);
+  for (const match of sentence.matchAll(CITATION_MARKER)) numbered(match[1], match[0]);
+  // "According to the Guide, page 3 (Source 2)" is one citation, not two
+  if (references.length > 0) return references;
+
+  for (const match of sentence.matchAll(PAGE_REFERENCE)) {
+    const page = parseInt(match[1], 10);
+    const before = sentence.slice(Math.max(0, (match.index ?? 0) - 100), match.index).toLowerCase();
+    // A document is named when one of its distinctive words precedes "page N"
+    const named = sources
+      .map((source, i) => ({ source, number: i + 1 }))
+      .filter(({ source }) =>
+        contentWords(source.document, new Set(['voltdrive'])).some((word) => before.includes(word))
+      );
+    if (named.length === 0) continue;
+
+    const onPage = named.find(({ source }) => source.page === page);
+    const document = named[0].source.document;
+    references.push({ source: onPage?.number ?? null, label: `${document}, page ${page}` });
+  }
+
+  return references;
+}
+
+export interface AnswerCheckOptions {
+  /** Overlap a sentence needs with a source to count as supported (default 0.5) */
+  minSupport?: number;
+  /** Sentences quoting the question back aren't claims */
+  question?: string;
+}
+
+export function checkAnswer(answer: string, sources: Source[], options: AnswerCheckOptions = {}): AnswerCheck {
+  const { minSupport = 0.5, question } = options;
+  // Document names and citation words aren't claims about the content
+  const ignore = new Set(sources.flatMap((source) => contentWords(source.document, new Set())));
+  const sourceWords = sources.map((source) => new Set(contentWords(source.content, new Set())));
+  const sentences = splitSentences(answer);
+
+  const citations: Citation[] = [];
+  const unsupportedSentences: string[] = [];
+  let claims = 0;
+
+  for (const sentence of sentences) {
+    const words = contentWords(
+      sentence.replace(SOURCE_REFERENCE, ' ').replace(CITATION_MARKER, ' '),
+      ignore
+    );
+
+    for (const reference of findReferences(sentence, sources)) {
+      citations.push({
+        ...reference,
+        sentence,
+        support: reference.source ? overlap(words, sourceWords[reference.source - 1]) : 0,
+      });
+    }
+
+    // Short sentences ("Hope this helps!") and restated questions aren't claims
+    const quotesQuestion = question && sentence.toLowerCase().includes(question.toLowerCase().trim());
+    if (words.length < 4 || quotesQuestion || NOT_COVERED.test(sentence)) continue;
+    claims++;
+    if (!sourceWords.some((set) => overlap(words, set) >= minSupport)) {
+      unsupportedSentences.push(sentence);
+    }
+  }
+
+  const valid = citations.filter((c) => c.source !== null);
+  return {
+    citations,
+    citedSources: [...new Set(valid.map((c) => c.source as number))].sort((a, b) => a - b),
+    invalidCitations: citations.filter((c) => c.source === null).map((c) => c.label),
+    unsupportedCitations: valid.filter((c) => c.support < minSupport),
+    faithfulness: claims > 0 ? (claims - unsupportedSentences.length) / claims : 1,
+    unsupportedSentences,
+    saysNotCovered: NOT_COVERED.test(answer),
+  };
+}
@@ -1,51 +1,146 @@
-import { AzureOpenAI } from 'openai';
+import { ChatMessage, ChatCompletionOptions, LLMProvider, createLLMProvider } from './llm-provider';
+import { isRetryableError, withRetry } from './retry';
+import { mapWithConcurrency } from './work-queue';
 
-if (!process.env.AZURE_OPENAI_API_KEY) {
-  throw new Error('AZURE_OPENAI_API_KEY is not set');
-}
+let provider: LLMProvider | null = null;
 
-if (!process.env.AZURE_OPENAI_ENDPOINT) {
-  throw new Error('AZURE_OPENAI_ENDPOINT is not set');
+/**
+ * Lazily resolve the configured provider (LLM_PROVIDER=azure|openai|fake)
+ * so importing this module never requires cloud credentials
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider();
+    console.log(`🤖 LLM provider: ${provider.name}`);
+  }
+  return provider;
 }
 
-export const azureOpenAI = new AzureOpenAI({
-  apiKey: process.env.AZURE_OPENAI_API_KEY,
-  endpoint: process.env.AZURE_OPENAI_ENDPOINT,
-  apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2025-01-01-preview', // Updated
-});
-
-export const CHAT_DEPLOYMENT = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4o-mini';
-export const EMBEDDING_DEPLOYMENT = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || 'text-embedding-3-small';
+/**
+ * Override the active provider (scripts and evaluation harnesses)
+ */
+export function setLLMProvider(next: LLMProvider) {
+  provider = next;
+}
 
 /**
- * Generate embeddings for text using Azure OpenAI
+ * Generate embeddings for text using the configured provider
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await azureOpenAI.embeddings.create({
-      model: EMBEDDING_DEPLOYMENT,
-      input: text,
-    });
-
-    return response.data[0].embedding;
+    return await getLLMProvider().generateEmbedding(text);
   } catch (error) {
     console.error('Error generating embedding:', error);
     throw error;
   }
 }
 
+export interface BatchEmbeddingOptions {
+  batchSize?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface EmbeddingFailure {
+  index: number;
+  error: string;
+}
+
+export interface BatchEmbeddingResult {
+  /** In input order; null where the input could not be embedded */
+  embeddings: Array<number[] | null>;
+  failures: EmbeddingFailure[];
+}
+
+function describeError(error: any): string {
+  return error?.status ? `${error.status} ${error.message}` : String(error?.message || error);
+}
+
+/**
+ * Embed many texts: inputs are grouped into batches (one request each), at most
+ * `concurrency` batches are in flight, and rate-limited or failed requests are
+ * retried with exponential backoff honoring `retry-after`.
+ * A batch rejected for a non-retryable reason (e.g. one oversized input) is
+ * retried item by item so only the offending inputs end up in `failures`.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  options: BatchEmbeddingOptions = {}
+): Promise<BatchEmbeddingResult> {
+  const {
+    batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '64', 10),
+    concurrency = parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10),
+    maxRetries = 5,
+    onProgress,
+  } = options;
+
+  const llm = getLLMProvider();
+  const embeddings: Array<number[] | null> = new Array(texts.length).fill(null);
+  const failures: EmbeddingFailure[] = [];
+  let completed = 0;
+
+  const batches: number[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    batches.push(Array.from({ length: Math.min(batchSize, texts.length - i) }, (_, j) => i + j));
+  }
+
+  const embedWithRetry = (indexes: number[]) =>
+    withRetry(() => llm.generateEmbeddings(indexes.map((i) => texts[i])), {
+      maxRetries,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`   ⏳ Embedding request failed (${describeError(error)}), retry ${attempt}/${maxRetries} in ${Math.round(delayMs)}ms`);
+      },
+    });
+
+  await mapWithConcurrency(batches, concurrency, async (indexes) => {
+    try {
+      const vectors = await embedWithRetry(indexes);
+      indexes.forEach((textIndex, j) => (embeddings[textIndex] = vectors[j]));
+    } catch (error) {
+      if (indexes.length > 1 && !isRetryableError(error)) {
+        for (const textIndex of indexes) {
+          try {
+            embeddings[textIndex] = (await embedWithRetry([textIndex]))[0];
+          } catch (itemError) {
+            failures.push({ index: textIndex, error: describeError(itemError) });
+          }
+        }
+      } else {
+        failures.push(...indexes.map((index) => ({ index, error: describeError(error) })));
+      }
+    }
+
+    completed += indexes.length;
+    onProgress?.(completed, texts.length);
+  });
+
+  failures.sort((a, b) => a.index - b.index);
+  return { embeddings, failures };
+}
+
 /**
  * Generate chat completion with streaming
  */
 export async function generateChatCompletion(
-  messages: Array<{ role: string; content: string }>,
-  stream: boolean = true
+  messages: ChatMessage[],
+  options?: ChatCompletionOptions
 ) {
-  return azureOpenAI.chat.completions.create({
-    model: CHAT_DEPLOYMENT,
-    messages,
-    temperature: 0.7,
-    max_tokens: 1000,
-    stream,
-  });
+  return getLLMProvider().streamChatCompletion(messages, options);
+}
+
+/**
+ * Non-streaming convenience wrapper: the full completion text
+ * (for short internal calls such as query rewriting)
+ */
+export async function generateChatCompletionText(
+  messages: ChatMessage[],
+  options?: ChatCompletionOptions
+): Promise<string> {
+  const completion = await generateChatCompletion(messages, options);
+  let text = '';
+  for await (const chunk of completion) {
+    text += chunk.choices[0]?.delta?.content || '';
+  }
+  return text;
 }
@@ -0,0 +1,99 @@
+/**
+ * Okapi BM25 over whole-word tokens. Unlike substring matching, "cover" does
+ * not match "discover".
+ */
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'from', 'as', 'is', 'was', 'are', 'been', 'be', 'have', 'has', 'had', 'do', 'does', 'did',
+  'will', 'would', 'could', 'should', 'may', 'might', 'can', 'about', 'into', 'it', 'its',
+  'my', 'me', 'i', 'you', 'your', 'what', 'which', 'who', 'when', 'where', 'why', 'how',
+  'this', 'that', 'these', 'those', 'there', 'here', 'if', 'so', 'than', 'too', 'very', 'just',
+]);
+
+function normalize(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+/**
+ * Lowercased word tokens without stop words; a trailing plural "s" is
+ * dropped so "tires"/"tire" match. Hyphenated codes ("E-204") are kept
+ * whole as well as split, so an exact code outranks its parts.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) || []) {
+    const parts = word.split(/['-]/);
+    if (parts.length > 1 && /\d/.test(word)) {
+      tokens.push(word);
+    }
+    for (const part of word.includes("'") ? [word.split("'")[0]] : parts) {
+      if (part && !STOP_WORDS.has(part)) tokens.push(normalize(part));
+    }
+  }
+  return tokens;
+}
+
+export interface BM25Options {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Length normalization (default 0.75) */
+  b?: number;
+}
+
+/**
+ * BM25 scorer over a fixed set of tokenized documents
+ */
+export class BM25 {
+  private k1: number;
+  private b: number;
+  private termFrequencies: Map<string, number>[];
+  private lengths: number[];
+  private averageLength: number;
+  private documentFrequency = new Map<string, number>();
+
+  constructor(documents: string[][], options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.lengths = documents.map((tokens) => tokens.length);
+    this.averageLength = this.lengths.reduce((sum, n) => sum + n, 0) / (documents.length || 1);
+
+    this.termFrequencies = documents.map((tokens) => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const token of frequencies.keys()) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+      }
+      return frequencies;
+    });
+  }
+
+  get size(): number {
+    return this.lengths.length;
+  }
+
+  /** Non-negative IDF (the "+1" variant used by Lucene) */
+  private idf(term: string): number {
+    const df = this.documentFrequency.get(term) || 0;
+    return Math.log(1 + (this.size - df + 0.5) / (df + 0.5));
+  }
+
+  score(queryTokens: string[], index: number): number {
+    const frequencies = this.termFrequencies[index];
+    const lengthNorm = 1 - this.b + this.b * (this.lengths[index] / (this.averageLength || 1));
+    let score = 0;
+    for (const term of new Set(queryTokens)) {
+      const tf = frequencies.get(term);
+      if (!tf) continue;
+      score += this.idf(term) * ((tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm));
+    }
+    return score;
+  }
+
+  /** Score of every document, in document order */
+  scoreAll(queryTokens: string[]): number[] {
+    return this.lengths.map((_, index) => this.score(queryTokens, index));
+  }
+}
@@ -0,0 +1,72 @@
+import { AnswerConfidence, buildHandoff } from './confidence-gate';
+import { ChatMessage } from './llm-provider';
+import { CondensedQuery, condenseQuery } from './query-rewriter';
+import { RAGOptions, performRAG } from './rag';
+import { SafetyAssessment, buildSafetyNotice, classifySafety } from './safety';
+import { Handoff, Message, QueryRoute, SafetyNotice, Source } from '@/types';
+
+export interface PreparedChat {
+  query: CondensedQuery;
+  /** Intent and documents retrieval was routed to */
+  route: QueryRoute;
+  sources: Source[];
+  /** Sources the confidence gate held back from a declined answer (empty otherwise) */
+  heldBackSources: Source[];
+  /** Confidence gate outcome for the retrieved sources */
+  confidence: AnswerConfidence;
+  /** Escalation offer when the answer is caveated or declined */
+  handoff?: Handoff;
+  /** Safety classifier result for the message */
+  safety: SafetyAssessment;
+  /** Banner to show ahead of the answer when the message is safety-critical */
+  safetyNotice?: SafetyNotice;
+  /** Ready for generateChatCompletion */
+  messages: ChatMessage[];
+}
+
+/**
+ * Everything before generation, shared by /api/chat and the answer eval:
+ * rewrite the turn into a standalone query, check it for safety-critical
+ * topics, retrieve context, and assemble the prompt with recent history
+ */
+export async function prepareChat(
+  message: string,
+  history: Message[],
+  options: RAGOptions = {}
+): Promise<PreparedChat> {
+  // Rewrite follow-ups ("how much does that cost?") into a standalone query and
+  // check the message for safety-critical topics, then retrieve context
+  const [query, safety] = await Promise.all([condenseQuery(message, history), classifySafety(message)]);
+  if (safety.triggered) {
+    console.warn(`🚨 Safety-critical question (${safety.via}): ${safety.categories.join(', ')}`);
+  }
+  const { systemPrompt, sources, candidates, route, confidence } = await performRAG(query.rewritten, 5, undefined, {
+    ...options,
+    safety: safety.categories,
+  });
+  const handoff = buildHandoff(
+    {
+      question: message,
+      searchedFor: query.rewritten,
+      filters: options.filters,
+      intents: route.intents,
+      sources: candidates,
+      history,
+    },
+    confidence
+  );
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    // Include last 3 messages from conversation history for context
+    ...history.slice(-3).map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+    { role: 'user', content: message },
+  ];
+
+  const safetyNotice = safety.triggered ? buildSafetyNotice(safety.categories) : undefined;
+  const heldBackSources = sources.length === 0 ? candidates : [];
+  return { query, route, sources, heldBackSources, confidence, handoff, safety, safetyNotice, messages };
+}
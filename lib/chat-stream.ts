@@ -0,0 +1,110 @@
+import { ChatStreamEvent } from '@/types';
+
+/**
+ * The /api/chat event stream (see ChatStreamEvent). Bump the version for any
+ * change an older client would misread; new event types don't need a bump,
+ * since readers skip types they don't know.
+ * Shared by the route and the browser, so this module must stay free of Node APIs.
+ */
+export const CHAT_STREAM_VERSION = 1;
+
+/**
+ * One event as an SSE frame
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parse one SSE frame (null for comments, keep-alives and other fields)
+ */
+function parseFrame(frame: string): ChatStreamEvent | null {
+  // A frame may split its payload over several data lines
+  const data = frame
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).replace(/^ /, ''))
+    .join('\n');
+  if (!data) {
+    return null;
+  }
+
+  let event: ChatStreamEvent;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    throw new Error(`Malformed chat stream event: ${data.slice(0, 100)}`);
+  }
+  if (!event || typeof event.type !== 'string') {
+    throw new Error(`Chat stream event without a type: ${data.slice(0, 100)}`);
+  }
+  return event;
+}
+
+/**
+ * Read a /api/chat response body as typed events. Frames are buffered across
+ * network chunks, so an event split between two reads is parsed once whole.
+ * Throws when the server speaks another protocol version,
+ * sends something unparseable, or closes without `done` or `error`.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let started = false;
+  let finished = false;
+
+  const handle = (frame: string): ChatStreamEvent | null => {
+    const event = parseFrame(frame);
+    if (!event) {
+      return null;
+    }
+    if (!started) {
+      if (event.type !== 'start') {
+        throw new Error(`Chat stream must begin with "start", got "${event.type}"`);
+      }
+      if (event.version !== CHAT_STREAM_VERSION) {
+        throw new Error(
+          `Unsupported chat stream version ${event.version} (this client speaks ${CHAT_STREAM_VERSION})`
+        );
+      }
+      started = true;
+    }
+    if (event.type === 'done' || event.type === 'error') {
+      finished = true;
+    }
+    return event;
+  };
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Frames end with a blank line; whatever follows the last one is incomplete
+      const frames = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : frames.pop()!;
+
+      for (const frame of frames) {
+        const event = handle(frame);
+        if (event) {
+          yield event;
+        }
+        if (finished) {
+          break;
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  } finally {
+    // Also runs when the consumer stops early (e.g. breaks out of for await)
+    reader.cancel().catch(() => {});
+  }
+
+  if (!finished) {
+    throw new Error('Chat stream ended before the answer was complete');
+  }
+}
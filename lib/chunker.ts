@@ -0,0 +1,314 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+export interface ChunkerOptions {
+  /** Upper bound per chunk in model tokens, heading included (except a folded tail, see minTokens) */
+  maxTokens: number;
+  /** Trailing context (whole sentences/items/rows) repeated at the start of the next chunk */
+  overlapTokens: number;
+  /**
+   * A final chunk smaller than this is folded into the previous one, which
+   * may then exceed maxTokens by less than minTokens
+   */
+  minTokens: number;
+}
+
+export interface Chunk {
+  text: string;
+  tokens: number;
+  heading?: string;
+}
+
+/**
+ * Chunk sizing per document type (see chunkerOptionsFor)
+ */
+export const CHUNKER_PRESETS: Record<string, ChunkerOptions> = {
+  default: { maxTokens: 300, overlapTokens: 40, minTokens: 40 },
+  // Manuals: dense troubleshooting pages with numbered steps and price tables
+  pdf: { maxTokens: 300, overlapTokens: 40, minTokens: 40 },
+  docx: { maxTokens: 300, overlapTokens: 40, minTokens: 40 },
+  // KB articles and help pages are already split by headings; overlap matters less
+  markdown: { maxTokens: 400, overlapTokens: 20, minTokens: 30 },
+  html: { maxTokens: 400, overlapTokens: 20, minTokens: 30 },
+  text: { maxTokens: 300, overlapTokens: 40, minTokens: 40 },
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+};
+
+/**
+ * Preset for a file extension ('.pdf') or document type ('markdown')
+ */
+export function chunkerOptionsFor(typeOrExtension: string): ChunkerOptions {
+  const key = typeOrExtension.toLowerCase();
+  return CHUNKER_PRESETS[EXTENSION_TYPES[key] || key] || CHUNKER_PRESETS.default;
+}
+
+// cl100k_base is the text-embedding-3-* tokenizer; close enough for sizing with
+// any of the supported chat models
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) encoder = getEncoding('cl100k_base');
+  return encoder;
+}
+
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+/**
+ * Heuristic header detection (all caps, numbered sections, or "Title Case:")
+ */
+export function isSectionHeader(line: string): boolean {
+  return (
+    (line.length > 0 && line.length < 60 && line === line.toUpperCase() && /[A-Z]/.test(line)) ||
+    /^\d+\.\s+[A-Z]/.test(line) ||
+    /^[A-Z][a-z]+(\s+[A-Z][a-z]+)*:$/.test(line)
+  );
+}
+
+type UnitType = 'heading' | 'paragraph' | 'list' | 'table';
+
+interface Unit {
+  type: UnitType;
+  text: string;
+  tokens: number;
+  /** For table rows: the table's header row(s), repeated when a chunk starts mid-table */
+  tableHeader?: string;
+  /** Later piece of an oversized paragraph/item; rendered on the same line as the previous piece */
+  continues?: boolean;
+}
+
+const LIST_ITEM = /^([-*+•▪●◦]|\d{1,3}[.)]|[a-zA-Z][.)]|\(\d{1,3}\)|Step\s+\d+[:.)]?)\s+/i;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+// At least two characters before the stop, so list markers ("1.", "a.") are not sentences
+const SENTENCE_BOUNDARY = /(?<=\S{2}[.!?])\s+(?=["'(]?[A-Z0-9])/;
+
+function isTableRow(line: string): boolean {
+  return TABLE_SEPARATOR.test(line) || line.split('|').length >= 3 || /\S\t+\S/.test(line);
+}
+
+/**
+ * Split into sentences, and hard-split any sentence still over the limit
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (countTokens(text) <= maxTokens) return [text];
+
+  const pieces: string[] = [];
+  for (const sentence of text.split(SENTENCE_BOUNDARY)) {
+    const tokens = getEncoder().encode(sentence);
+    if (tokens.length <= maxTokens) {
+      pieces.push(sentence);
+      continue;
+    }
+    for (let i = 0; i < tokens.length; i += maxTokens) {
+      pieces.push(getEncoder().decode(tokens.slice(i, i + maxTokens)).trim());
+    }
+  }
+  return pieces.filter(Boolean);
+}
+
+/**
+ * Parse text into atomic units: headings, list items, table rows and
+ * sentences/paragraphs. Wrapped lines are re-joined; list items and table
+ * rows are never merged with their neighbours.
+ */
+function parseUnits(text: string, section: string | undefined, maxTokens: number): Unit[] {
+  const sectionTitle = section?.split(' > ').pop();
+  const blocks: { type: UnitType; text: string; tableHeader?: string }[] = [];
+  let paragraph: string[] = [];
+  let tableHeader: string | undefined;
+  let tableRows = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  for (const rawLine of lines) {
+    const indented = /^\s{2,}\S/.test(rawLine);
+    const line = rawLine.replace(/\t+/g, ' | ').replace(/[  ]+/g, ' ').trim();
+
+    if (!line) {
+      flushParagraph();
+      tableHeader = undefined;
+      tableRows = 0;
+      continue;
+    }
+
+    const markdownHeading = line.match(/^#{1,6}\s+(.+)$/);
+    // Numbered lines are steps, not headings, unless written in caps ("2. SAFETY")
+    const heuristicHeading = isSectionHeader(line) && (!LIST_ITEM.test(line) || line === line.toUpperCase());
+    if (markdownHeading || line === sectionTitle || heuristicHeading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: (markdownHeading?.[1] || line).replace(/:$/, '') });
+      tableHeader = undefined;
+      continue;
+    }
+
+    if (isTableRow(rawLine.trim())) {
+      flushParagraph();
+      tableRows++;
+      // The first row (plus a Markdown separator) is the header
+      if (tableRows === 1 || (tableRows === 2 && TABLE_SEPARATOR.test(line))) {
+        tableHeader = tableHeader ? `${tableHeader}\n${line}` : line;
+      }
+      blocks.push({ type: 'table', text: line, tableHeader });
+      continue;
+    }
+    tableHeader = undefined;
+    tableRows = 0;
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'list', text: line });
+      continue;
+    }
+
+    // Wrapped continuation of a list item: indented, or the item hasn't ended a sentence
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && previous?.type === 'list' && (indented || !/[.!?:]$/.test(previous.text))) {
+      previous.text += ' ' + line;
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  const units: Unit[] = [];
+  for (const block of blocks) {
+    const pieces = block.type === 'heading' ? [block.text] : splitOversized(block.text, maxTokens);
+    pieces.forEach((piece, i) => {
+      units.push({ ...block, text: piece, tokens: countTokens(piece), continues: i > 0 });
+    });
+  }
+  return units;
+}
+
+interface PendingChunk {
+  heading?: string;
+  units: Unit[];
+  /** Leading units repeated from the previous chunk */
+  overlap: number;
+}
+
+function tokensOf(units: Unit[]): number {
+  // +1 per unit for the joining newline
+  return units.reduce((sum, unit) => sum + unit.tokens + 1, 0);
+}
+
+function renderChunk(chunk: PendingChunk): Chunk {
+  const lines: string[] = [];
+  let tableHeader: string | undefined;
+  let firstRow = -1;
+
+  chunk.units.forEach((unit, i) => {
+    if (unit.continues && i > 0) {
+      lines[lines.length - 1] += ' ' + unit.text;
+      return;
+    }
+    if (unit.type === 'table' && firstRow < 0) {
+      firstRow = lines.length;
+      tableHeader = unit.tableHeader;
+    }
+    lines.push(unit.text);
+  });
+
+  // Starting mid-table: repeat the header so the rows keep their column names
+  if (tableHeader && !lines.includes(tableHeader.split('\n')[0])) {
+    lines.splice(firstRow, 0, tableHeader);
+  }
+  if (chunk.heading) lines.unshift(chunk.heading);
+
+  const text = lines.join('\n');
+  return { text, tokens: countTokens(text), heading: chunk.heading };
+}
+
+/**
+ * Structure-aware chunking sized in model tokens.
+ * - headings start a new chunk and are carried as the first line of every chunk under them
+ * - list items, table rows and sentences are atomic (only split when a single one exceeds maxTokens)
+ * - overlap repeats whole trailing units, never partial sentences
+ * - a short trailing chunk is folded into the previous one instead of being dropped
+ */
+export function chunkText(
+  text: string,
+  options: ChunkerOptions = CHUNKER_PRESETS.default,
+  section?: string
+): Chunk[] {
+  const { maxTokens, overlapTokens, minTokens } = options;
+  const chunks: PendingChunk[] = [];
+  let heading = section;
+  let current: PendingChunk = { heading, units: [], overlap: 0 };
+
+  const headingTokens = () => (heading ? countTokens(heading) + 1 : 0);
+  // Leave room for the heading and a repeated table header
+  const units = parseUnits(text, section, Math.max(16, Math.floor(maxTokens * 0.75)));
+
+  const emit = () => {
+    if (current.units.length > current.overlap) chunks.push(current);
+  };
+
+  for (const unit of units) {
+    if (unit.type === 'heading') {
+      emit();
+      // Keep the full path from the loader when the heading is its last segment
+      heading = section && section.split(' > ').pop() === unit.text ? section : unit.text;
+      current = { heading, units: [], overlap: 0 };
+      continue;
+    }
+
+    const tableHeaderTokens = unit.type === 'table' && unit.tableHeader ? countTokens(unit.tableHeader) + 1 : 0;
+    const size = headingTokens() + tokensOf(current.units) + unit.tokens + 1;
+
+    if (current.units.length > current.overlap && size + tableHeaderTokens > maxTokens) {
+      emit();
+
+      // Carry whole trailing units up to the overlap budget
+      const carried: Unit[] = [];
+      let carriedTokens = 0;
+      for (let i = current.units.length - 1; i >= 0; i--) {
+        const candidate = current.units[i];
+        if (carriedTokens + candidate.tokens + 1 > overlapTokens) break;
+        carried.unshift(candidate);
+        carriedTokens += candidate.tokens + 1;
+      }
+
+      const fits = headingTokens() + carriedTokens + unit.tokens + 1 + tableHeaderTokens <= maxTokens;
+      current = fits
+        ? { heading, units: carried, overlap: carried.length }
+        : { heading, units: [], overlap: 0 };
+    }
+
+    current.units.push(unit);
+  }
+
+  // Fold a short tail into the previous chunk rather than emitting a fragment.
+  // The tail started a new chunk because it didn't fit, so allow the overshoot.
+  const tail = current.units.slice(current.overlap);
+  const previous = chunks[chunks.length - 1];
+  if (
+    tail.length > 0 &&
+    previous &&
+    previous.heading === current.heading &&
+    tokensOf(tail) < minTokens &&
+    headingTokens() + tokensOf(previous.units) + tokensOf(tail) <= maxTokens + minTokens
+  ) {
+    previous.units.push(...tail);
+  } else {
+    emit();
+  }
+
+  return chunks.map(renderChunk);
+}
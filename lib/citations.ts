@@ -0,0 +1,69 @@
+/**
+ * Inline citation markers: the model writes "[1]" or "[1, 3]" where the
+ * numbers are the "[Source N: ...]" labels from buildContext. Shared by the
+ * chat UI and the answer checks, so it must stay free of Node imports.
+ */
+
+export const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+const anchorPrefix = (messageId: string) => `source-${messageId}-`;
+
+/**
+ * DOM id of a source chip. Scoped to the message, since several answers
+ * (each with its own source 1) can be on screen at once.
+ */
+export function sourceAnchorId(messageId: string, number: number): string {
+  return `${anchorPrefix(messageId)}${number}`;
+}
+
+/**
+ * Source number a marker link from linkCitations points at, or null for any
+ * other link
+ */
+export function citationLinkNumber(href: string | undefined, messageId: string): number | null {
+  const prefix = `#${anchorPrefix(messageId)}`;
+  if (!href?.startsWith(prefix)) return null;
+  const number = Number(href.slice(prefix.length));
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+/**
+ * Distinct source numbers cited in the text, in order of first citation.
+ * Numbers outside 1..sourceCount are dropped.
+ */
+export function citedSourceNumbers(text: string, sourceCount: number): number[] {
+  const cited: number[] = [];
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    for (const n of match[1].match(/\d+/g) || []) {
+      const number = parseInt(n, 10);
+      if (number >= 1 && number <= sourceCount && !cited.includes(number)) {
+        cited.push(number);
+      }
+    }
+  }
+  return cited;
+}
+
+/**
+ * Rewrite "[1, 3]" into markdown links to the message's source chips,
+ * "[1](#source-<messageId>-1)[3](#source-<messageId>-3)", so the markdown
+ * renderer can turn them into clickable superscripts. Markers with no
+ * matching source are left as plain text.
+ */
+export function linkCitations(text: string, sourceCount: number, messageId: string): string {
+  return text.replace(CITATION_MARKER, (marker, numbers: string) => {
+    const valid = (numbers.match(/\d+/g) || [])
+      .map((n) => parseInt(n, 10))
+      .filter((n) => n >= 1 && n <= sourceCount);
+    if (valid.length === 0) return marker;
+    return valid.map((n) => `[${n}](#${sourceAnchorId(messageId, n)})`).join('');
+  });
+}
+
+/**
+ * Document viewer link for a source, highlighting its chunk when known
+ */
+export function documentPageHref(source: { document: string; page: number; chunkHash?: string }): string {
+  const href = `/docs/${encodeURIComponent(source.document)}/${source.page}`;
+  return source.chunkHash ? `${href}?chunk=${source.chunkHash.slice(0, 16)}#cited` : href;
+}
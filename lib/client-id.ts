@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Anonymous per-browser id used to scope stored conversations.
+ * Issued by middleware.ts on the first request; there are no user accounts.
+ */
+export const CLIENT_ID_COOKIE = 'vd_client';
+
+export function getClientId(req: NextRequest): string | undefined {
+  return req.cookies.get(CLIENT_ID_COOKIE)?.value;
+}
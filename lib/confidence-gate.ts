@@ -0,0 +1,141 @@
+import { RerankerName } from './rerankers';
+import { describeFilters } from './retrieval-filters';
+import { AnswerDecision, Handoff, Message, RetrievalFilters, Source } from '@/types';
+
+export interface ConfidenceThresholds {
+  /** Top score at or above which the answer is given as usual */
+  answer: number;
+  /** Top score at or above which the answer is given with a caveat; below it the bot declines */
+  caveat: number;
+}
+
+export interface AnswerConfidence {
+  decision: AnswerDecision;
+  /** Best reranked score among the sources */
+  score: number;
+  thresholds: ConfidenceThresholds;
+}
+
+/**
+ * Rerank scores live on different scales, so each reranker has its own
+ * thresholds ('none' keeps the store's score, which depends on the hybrid
+ * mode). These are provisional defaults, not yet calibrated against real
+ * traffic: `npm run eval` reports how often the top source is relevant for
+ * each decision, and RAG_CONFIDENCE_ANSWER_<KEY> / RAG_CONFIDENCE_CAVEAT_<KEY>
+ * override them once calibrated on your own documents, per key so one
+ * scale's value never applies to another (e.g. RAG_CONFIDENCE_ANSWER_LLM,
+ * RAG_CONFIDENCE_CAVEAT_NONE_RRF).
+ */
+const DEFAULT_THRESHOLDS: Record<string, ConfidenceThresholds> = {
+  heuristic: { answer: 0.45, caveat: 0.3 },
+  bm25: { answer: 0.45, caveat: 0.3 },
+  llm: { answer: 0.7, caveat: 0.4 },
+  'none/client': { answer: 0.5, caveat: 0.35 },
+  'none/database': { answer: 0.45, caveat: 0.3 },
+  // Fused rank scores: 1 is first in both lists, 0.5 first in only one
+  'none/rrf': { answer: 0.9, caveat: 0.5 },
+};
+
+/**
+ * Thresholds for a reranker (and, for 'none', the hybrid mode whose scores it keeps)
+ */
+export function getConfidenceThresholds(reranker: RerankerName, hybridMode: string = 'client'): ConfidenceThresholds {
+  const key = reranker === 'none' ? `none/${hybridMode}` : reranker;
+  const defaults = DEFAULT_THRESHOLDS[key] || DEFAULT_THRESHOLDS.heuristic;
+  const suffix = key.replace('/', '_').toUpperCase();
+  const answer = parseFloat(process.env[`RAG_CONFIDENCE_ANSWER_${suffix}`] || '');
+  const caveat = parseFloat(process.env[`RAG_CONFIDENCE_CAVEAT_${suffix}`] || '');
+  return {
+    answer: Number.isFinite(answer) ? answer : defaults.answer,
+    caveat: Number.isFinite(caveat) ? caveat : defaults.caveat,
+  };
+}
+
+/**
+ * Decide between answering, answering with a caveat and declining from the
+ * best reranked score (0 when nothing was retrieved)
+ */
+export function assessConfidence(rerankScores: number[], thresholds: ConfidenceThresholds): AnswerConfidence {
+  if (rerankScores.length === 0) {
+    return { decision: 'refuse', score: 0, thresholds };
+  }
+  const score = Math.max(...rerankScores);
+  const decision: AnswerDecision =
+    score >= thresholds.answer ? 'answer' : score >= thresholds.caveat ? 'caveat' : 'refuse';
+  return { decision, score, thresholds };
+}
+
+export interface HandoffContext {
+  /** The customer's message as typed */
+  question: string;
+  /** Standalone query retrieval ran with, when it differs */
+  searchedFor?: string;
+  filters?: RetrievalFilters;
+  intents?: string[];
+  /** Closest documentation found, even if it wasn't good enough to answer from */
+  sources: Source[];
+  history: Message[];
+}
+
+const SUMMARY_HISTORY_MESSAGES = 4;
+const SUMMARY_MESSAGE_CHARS = 200;
+
+function clip(text: string, max: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? `${line.slice(0, max - 3)}...` : line;
+}
+
+/**
+ * Plain-text case summary an agent can pick up without rereading the chat
+ */
+export function buildCaseSummary(context: HandoffContext, confidence: AnswerConfidence): string {
+  const lines = [`Customer question: ${context.question}`];
+  if (context.searchedFor && context.searchedFor !== context.question) {
+    lines.push(`Searched documentation for: ${context.searchedFor}`);
+  }
+  const vehicle = describeFilters(context.filters);
+  if (vehicle) {
+    lines.push(`Vehicle / filters: ${vehicle}`);
+  }
+  if (context.intents && context.intents.length > 0) {
+    lines.push(`Topic: ${context.intents.join(', ')}`);
+  }
+
+  lines.push(
+    confidence.decision === 'refuse'
+      ? `Assistant could not answer from the documentation (best match ${Math.round(confidence.score * 100)}%).`
+      : `Assistant answered with low confidence (best match ${Math.round(confidence.score * 100)}%); please confirm.`
+  );
+  const pages = [...new Set(context.sources.map((source) => `${source.document}, page ${source.page}`))];
+  if (pages.length > 0) {
+    lines.push('Closest documentation:');
+    for (const page of pages.slice(0, 3)) {
+      lines.push(`- ${page}`);
+    }
+  }
+
+  const recent = context.history.slice(-SUMMARY_HISTORY_MESSAGES);
+  if (recent.length > 0) {
+    lines.push('Earlier in the conversation:');
+    for (const message of recent) {
+      lines.push(`- ${message.role === 'user' ? 'Customer' : 'Assistant'}: ${clip(message.content, SUMMARY_MESSAGE_CHARS)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The escalation offered alongside a caveated or declined answer (none when
+ * the assistant answered confidently)
+ */
+export function buildHandoff(context: HandoffContext, confidence: AnswerConfidence): Handoff | undefined {
+  if (confidence.decision === 'answer') {
+    return undefined;
+  }
+  return {
+    reason: context.sources.length === 0 ? 'no_match' : 'low_confidence',
+    decision: confidence.decision,
+    confidence: Math.round(confidence.score * 1000) / 1000,
+    summary: buildCaseSummary(context, confidence),
+  };
+}
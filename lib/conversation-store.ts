@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Conversation, ConversationWithMessages, Handoff, Message, SafetyNotice, Source } from '@/types';
+import {
+  listConversationRows,
+  getConversationRow,
+  insertConversationRow,
+  insertMessageRow,
+  deleteMessageRowsFrom,
+  deleteConversationRow,
+} from './supabase';
+
+export interface NewMessage {
+  /** Id handed out before the save (generated when unset) */
+  id?: string;
+  role: Message['role'];
+  content: string;
+  sources?: Source[];
+  handoff?: Handoff;
+  safety?: SafetyNotice;
+  heldBackSources?: Source[];
+}
+
+/**
+ * Server-side chat history. Every call is scoped to an owner id (the
+ * anonymous browser id from middleware.ts) so users only see their own chats.
+ */
+export interface ConversationStore {
+  name: string;
+  listConversations(ownerId: string): Promise<Conversation[]>;
+  /** null when the conversation doesn't exist or belongs to someone else */
+  getConversation(ownerId: string, conversationId: string): Promise<ConversationWithMessages | null>;
+  createConversation(ownerId: string, title: string): Promise<Conversation>;
+  appendMessage(conversationId: string, message: NewMessage): Promise<Message>;
+  /** Remove a message and everything after it (edit & resend, regenerate); returns how many were removed */
+  deleteMessagesFrom(conversationId: string, messageId: string): Promise<number>;
+  deleteConversation(ownerId: string, conversationId: string): Promise<boolean>;
+}
+
+/**
+ * Title shown in the sidebar: the first question, trimmed to one line
+ */
+export function conversationTitle(firstMessage: string): string {
+  const line = firstMessage.replace(/\s+/g, ' ').trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  id: string;
+  role: Message['role'];
+  content: string;
+  sources: Source[] | null;
+  handoff: Handoff | null;
+  safety: SafetyNotice | null;
+  held_back_sources: Source[] | null;
+  created_at: string;
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return { id: row.id, title: row.title, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    sources: row.sources ?? undefined,
+    handoff: row.handoff ?? undefined,
+    safety: row.safety ?? undefined,
+    heldBackSources: row.held_back_sources ?? undefined,
+    timestamp: new Date(row.created_at),
+  };
+}
+
+/**
+ * Supabase backend (conversations / messages tables)
+ */
+export class SupabaseConversationStore implements ConversationStore {
+  name = 'supabase';
+
+  async listConversations(ownerId: string) {
+    return (await listConversationRows(ownerId)).map(toConversation);
+  }
+
+  async getConversation(ownerId: string, conversationId: string) {
+    const row = await getConversationRow(ownerId, conversationId);
+    if (!row) return null;
+    return { ...toConversation(row), messages: (row.messages as MessageRow[]).map(toMessage) };
+  }
+
+  async createConversation(ownerId: string, title: string) {
+    return toConversation(await insertConversationRow(ownerId, title));
+  }
+
+  async appendMessage(conversationId: string, { heldBackSources, ...message }: NewMessage) {
+    return toMessage(await insertMessageRow(conversationId, { ...message, held_back_sources: heldBackSources }));
+  }
+
+  async deleteMessagesFrom(conversationId: string, messageId: string) {
+    return deleteMessageRowsFrom(conversationId, messageId);
+  }
+
+  async deleteConversation(ownerId: string, conversationId: string) {
+    return deleteConversationRow(ownerId, conversationId);
+  }
+}
+
+interface StoredConversation extends ConversationRow {
+  owner_id: string;
+  messages: MessageRow[];
+}
+
+/**
+ * In-process backend for tests and single-instance dev servers
+ */
+export class MemoryConversationStore implements ConversationStore {
+  name = 'memory';
+  protected conversations: StoredConversation[] = [];
+
+  protected async load(): Promise<void> {}
+  protected async persist(): Promise<void> {}
+
+  async listConversations(ownerId: string) {
+    await this.load();
+    return this.conversations
+      .filter((conversation) => conversation.owner_id === ownerId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .map(toConversation);
+  }
+
+  async getConversation(ownerId: string, conversationId: string) {
+    await this.load();
+    const conversation = this.conversations.find(
+      (c) => c.id === conversationId && c.owner_id === ownerId
+    );
+    if (!conversation) return null;
+    return { ...toConversation(conversation), messages: conversation.messages.map(toMessage) };
+  }
+
+  async createConversation(ownerId: string, title: string) {
+    await this.load();
+    const now = new Date().toISOString();
+    const conversation: StoredConversation = {
+      id: crypto.randomUUID(),
+      owner_id: ownerId,
+      title,
+      created_at: now,
+      updated_at: now,
+      messages: [],
+    };
+    this.conversations.push(conversation);
+    await this.persist();
+    return toConversation(conversation);
+  }
+
+  async appendMessage(conversationId: string, message: NewMessage) {
+    await this.load();
+    const conversation = this.conversations.find((c) => c.id === conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    const row: MessageRow = {
+      id: message.id ?? crypto.randomUUID(),
+      role: message.role,
+      content: message.content,
+      sources: message.sources ?? null,
+      handoff: message.handoff ?? null,
+      safety: message.safety ?? null,
+      held_back_sources: message.heldBackSources ?? null,
+      created_at: new Date().toISOString(),
+    };
+    conversation.messages.push(row);
+    conversation.updated_at = row.created_at;
+    await this.persist();
+    return toMessage(row);
+  }
+
+  async deleteMessagesFrom(conversationId: string, messageId: string) {
+    await this.load();
+    const conversation = this.conversations.find((c) => c.id === conversationId);
+    const index = conversation ? conversation.messages.findIndex((m) => m.id === messageId) : -1;
+    if (!conversation || index === -1) return 0;
+
+    const removed = conversation.messages.length - index;
+    conversation.messages = conversation.messages.slice(0, index);
+    await this.persist();
+    return removed;
+  }
+
+  async deleteConversation(ownerId: string, conversationId: string) {
+    await this.load();
+    const before = this.conversations.length;
+    this.conversations = this.conversations.filter(
+      (c) => !(c.id === conversationId && c.owner_id === ownerId)
+    );
+    if (this.conversations.length === before) return false;
+    await this.persist();
+    return true;
+  }
+}
+
+/**
+ * Memory backend persisted to a JSON file (local dev without Supabase)
+ */
+export class FileConversationStore extends MemoryConversationStore {
+  name = 'file';
+  private loadedMtime = -1;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load() {
+    try {
+      const { mtimeMs } = await fs.stat(this.filePath);
+      if (mtimeMs === this.loadedMtime) return;
+
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.conversations = raw.conversations || [];
+      this.loadedMtime = mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  protected async persist() {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ conversations: this.conversations }));
+    await fs.rename(tmpPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
+
+let store: ConversationStore | null = null;
+
+/**
+ * Resolve the configured store (CONVERSATION_STORE=supabase|memory|file,
+ * defaulting to the VECTOR_STORE backend)
+ */
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    const backend = process.env.CONVERSATION_STORE || process.env.VECTOR_STORE || 'supabase';
+    switch (backend) {
+      case 'supabase':
+        store = new SupabaseConversationStore();
+        break;
+      case 'memory':
+        store = new MemoryConversationStore();
+        break;
+      case 'file':
+        store = new FileConversationStore(
+          process.env.CONVERSATION_STORE_PATH || path.join(process.cwd(), '.data', 'conversations.json')
+        );
+        break;
+      default:
+        throw new Error(`Unknown CONVERSATION_STORE: ${backend}`);
+    }
+    console.log(`💬 Conversation store: ${store.name}`);
+  }
+  return store;
+}
@@ -0,0 +1,335 @@
+import fs from 'fs';
+import path from 'path';
+import pdf from 'pdf-parse';
+import mammoth from 'mammoth';
+import { isSectionHeader } from './chunker';
+
+/**
+ * A slice of a source document ready for chunking.
+ * Every loader produces these so all formats share one chunk/enrich/embed path.
+ */
+export interface DocumentUnit {
+  page: number;
+  text: string;
+  section?: string;
+}
+
+export type DocumentLoader = (filePath: string) => Promise<DocumentUnit[]>;
+
+/**
+ * Extract section headers with their character offsets in the text
+ */
+function detectSections(text: string): { header: string; start: number }[] {
+  const sections: { header: string; start: number }[] = [];
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (isSectionHeader(trimmed)) {
+      sections.push({ header: trimmed.replace(/:$/, ''), start: offset });
+    }
+    offset += line.length + 1; // +1 for the newline consumed by split
+  }
+
+  return sections;
+}
+
+/**
+ * Render a page's text items, breaking lines where the baseline changes
+ * (same layout logic as pdf-parse's default renderer)
+ */
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : '\n' + item.str;
+    lastY = y;
+  }
+  return text;
+}
+
+/**
+ * Split page texts at detected section headers.
+ * Each page is split so every unit carries the section it actually belongs
+ * to, including sections that start mid-page.
+ */
+function splitPagesBySection(pageTexts: string[]): DocumentUnit[] {
+  // Section map over the page texts joined exactly as we index them
+  const fullText = pageTexts.map((text) => text || '').join('\n');
+  const sections = detectSections(fullText);
+  console.log(`   Detected ${sections.length} sections`);
+
+  const units: DocumentUnit[] = [];
+  let pageStart = 0;
+
+  for (let i = 0; i < pageTexts.length; i++) {
+    const pageText = pageTexts[i] || '';
+    const pageEnd = pageStart + pageText.length;
+
+    // Section in effect at the top of the page (carried over from earlier pages)
+    let currentSection = [...sections].reverse().find((s) => s.start <= pageStart)?.header;
+    let segmentStart = pageStart;
+
+    const boundaries = sections.filter((s) => s.start > pageStart && s.start < pageEnd);
+    for (const boundary of [...boundaries, { header: undefined, start: pageEnd }]) {
+      const segment = fullText.slice(segmentStart, boundary.start);
+
+      // Skip empty segments and headers immediately followed by another header
+      if (segment.trim() && !isSectionHeader(segment.trim())) {
+        units.push({ page: i + 1, text: segment, section: currentSection });
+      }
+
+      currentSection = boundary.header;
+      segmentStart = boundary.start;
+    }
+
+    pageStart = pageEnd + 1; // skip the joining newline
+  }
+
+  return units;
+}
+
+/**
+ * Process a PDF file page by page
+ */
+async function processPDF(filePath: string): Promise<DocumentUnit[]> {
+  const dataBuffer = fs.readFileSync(filePath);
+
+  // pdf-parse renders pages in order; capture each page's text separately
+  const pageTexts: string[] = [];
+  const data = await pdf(dataBuffer, {
+    pagerender: async (pageData: any) => {
+      const text = await renderPageText(pageData);
+      pageTexts[pageData.pageIndex ?? pageTexts.length] = text;
+      return text;
+    },
+  });
+
+  console.log(`   PDF: ${data.numpages} pages, ${data.text.length} characters`);
+  return splitPagesBySection(pageTexts);
+}
+
+/**
+ * Plain text. Form feeds (\f) are treated as page breaks, as emitted by pdftotext.
+ */
+async function processText(filePath: string): Promise<DocumentUnit[]> {
+  const pageTexts = fs.readFileSync(filePath, 'utf8').split('\f');
+  return splitPagesBySection(pageTexts);
+}
+
+/**
+ * Group lines under their heading path ("Charging > Home Charging").
+ * Shared by the Markdown and HTML loaders, which have no page numbers:
+ * everything is reported as page 1 and located by section instead.
+ */
+class HeadingTracker {
+  private path: string[] = [];
+  private lines: string[] = [];
+  units: DocumentUnit[] = [];
+
+  heading(level: number, title: string) {
+    this.flush();
+    this.path = [...this.path.slice(0, level - 1), title];
+    // Keep the heading text in the unit so it is searchable
+    this.lines.push(title);
+  }
+
+  line(text: string) {
+    this.lines.push(text);
+  }
+
+  flush() {
+    const text = this.lines.join('\n');
+    const hasBody = this.lines.length > 1 || this.path.length === 0;
+    if (text.trim() && hasBody) {
+      this.units.push({
+        page: 1,
+        text,
+        section: this.path.length > 0 ? this.path.filter(Boolean).join(' > ') : undefined,
+      });
+    }
+    this.lines = [];
+  }
+}
+
+/**
+ * Strip inline Markdown so chunks read as prose
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // bold
+    .replace(/`([^`]+)`/g, '$1'); // inline code
+}
+
+/**
+ * Markdown knowledge-base articles (ATX and setext headings)
+ */
+async function processMarkdown(filePath: string): Promise<DocumentUnit[]> {
+  const lines = fs.readFileSync(filePath, 'utf8').replace(/^---\n[\s\S]*?\n---\n/, '').split('\n');
+  const tracker = new HeadingTracker();
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      tracker.line(line);
+      continue;
+    }
+
+    const atx = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const setext = !inFence && line.trim() && lines[i + 1]?.match(/^(=+|-+)\s*$/);
+
+    if (atx) {
+      tracker.heading(atx[1].length, stripInlineMarkdown(atx[2]));
+    } else if (setext) {
+      tracker.heading(lines[i + 1].startsWith('=') ? 1 : 2, stripInlineMarkdown(line.trim()));
+      i++; // skip the underline
+    } else {
+      tracker.line(inFence ? line : stripInlineMarkdown(line));
+    }
+  }
+
+  tracker.flush();
+  return tracker.units;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+  deg: '°',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert an HTML fragment to text lines, keeping list items and table rows
+ * on their own lines
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/t[dh]>\s*<t[dh][^>]*>/gi, ' | ')
+      .replace(/<(br|\/p|\/div|\/tr|\/li|\/ul|\/ol|\/table|\/blockquote|\/pre)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Split HTML into sections at <h1>-<h6> elements
+ */
+function processHtmlString(html: string): DocumentUnit[] {
+  const body = (html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|nav|header|footer|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const tracker = new HeadingTracker();
+  const headingPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(body)) !== null) {
+    const text = htmlToText(body.slice(lastIndex, match.index));
+    if (text) tracker.line(text);
+    tracker.heading(parseInt(match[1], 10), htmlToText(match[2]));
+    lastIndex = headingPattern.lastIndex;
+  }
+
+  const tail = htmlToText(body.slice(lastIndex));
+  if (tail) tracker.line(tail);
+
+  tracker.flush();
+  return tracker.units;
+}
+
+/**
+ * HTML help pages
+ */
+async function processHTML(filePath: string): Promise<DocumentUnit[]> {
+  return processHtmlString(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Word service bulletins: converted to HTML by mammoth so Word heading
+ * styles become <h1>-<h6> and reuse the HTML section logic
+ */
+async function processDOCX(filePath: string): Promise<DocumentUnit[]> {
+  const result = await mammoth.convertToHtml({ path: filePath });
+  for (const message of result.messages) {
+    if (message.type === 'error') console.warn(`   ⚠️ ${message.message}`);
+  }
+  return processHtmlString(result.value);
+}
+
+/**
+ * Loader registry keyed by lower-case file extension
+ */
+const loaders: Record<string, DocumentLoader> = {
+  '.pdf': processPDF,
+  '.md': processMarkdown,
+  '.markdown': processMarkdown,
+  '.html': processHTML,
+  '.htm': processHTML,
+  '.docx': processDOCX,
+  '.txt': processText,
+};
+
+/**
+ * Register (or replace) the loader for a file extension, e.g. '.rtf'
+ */
+export function registerLoader(extension: string, loader: DocumentLoader) {
+  loaders[extension.toLowerCase()] = loader;
+}
+
+export function getSupportedExtensions(): string[] {
+  return Object.keys(loaders);
+}
+
+/**
+ * Load a document with the loader registered for its extension
+ */
+export async function loadDocument(filePath: string): Promise<DocumentUnit[]> {
+  const extension = path.extname(filePath).toLowerCase();
+  const loader = loaders[extension];
+
+  if (!loader) {
+    throw new Error(`No loader registered for "${extension}" files (${filePath})`);
+  }
+
+  return loader(filePath);
+}
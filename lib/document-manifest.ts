@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { getSupportedExtensions } from './document-loaders';
+
+/**
+ * One document to ingest, with the metadata copied onto each of its chunks
+ */
+export interface DocumentSpec {
+  id: string;
+  name: string;
+  path: string;
+  category?: string;
+  model_year?: number;
+  vehicle_model?: string;
+  language?: string;
+  effective_date?: string;
+}
+
+type ManifestEntry = Partial<Omit<DocumentSpec, 'path'>> & { file: string };
+
+interface Manifest {
+  defaults?: Partial<Omit<DocumentSpec, 'id' | 'name' | 'path'>>;
+  documents: ManifestEntry[];
+}
+
+const MANIFEST_NAMES = ['manifest.yaml', 'manifest.yml', 'manifest.json'];
+
+/**
+ * "warranty-pricing_md.pdf" -> "warranty-pricing-md"
+ */
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * "warranty_pricing.pdf" -> "Warranty Pricing"
+ */
+function displayNameFromFile(filePath: string): string {
+  return path
+    .basename(filePath, path.extname(filePath))
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Reject specs sharing an id or a display name. Chunks are stored under the
+ * display name, so two documents with one name would replace each other's
+ * chunks on re-ingest.
+ */
+function assertUnique(specs: DocumentSpec[], source: string, hint = ''): void {
+  for (const key of ['id', 'name'] as const) {
+    const seen = new Map<string, string>();
+    for (const spec of specs) {
+      const other = seen.get(spec[key]);
+      if (other) {
+        throw new Error(
+          `${source}: duplicate document ${key} "${spec[key]}" (${other} and ${spec.path})${hint}`
+        );
+      }
+      seen.set(spec[key], spec.path);
+    }
+  }
+}
+
+/**
+ * Find the default manifest in a documents directory, if there is one
+ */
+export function findManifest(dir: string): string | undefined {
+  return MANIFEST_NAMES.map((name) => path.join(dir, name)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Parse a YAML or JSON manifest. Relative `file` entries resolve against the
+ * manifest's directory.
+ */
+export function loadManifest(manifestPath: string): DocumentSpec[] {
+  const raw = fs.readFileSync(manifestPath, 'utf8');
+  const manifest: Manifest = manifestPath.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw);
+
+  if (!manifest || !Array.isArray(manifest.documents)) {
+    throw new Error(`Manifest ${manifestPath} must contain a "documents" list`);
+  }
+
+  const baseDir = path.dirname(manifestPath);
+  const specs = manifest.documents.map((entry, idx) => {
+    if (!entry.file) {
+      throw new Error(`Manifest ${manifestPath}: documents[${idx}] is missing "file"`);
+    }
+
+    const merged = { ...manifest.defaults, ...entry };
+    const modelYear = merged.model_year !== undefined ? Number(merged.model_year) : undefined;
+    if (modelYear !== undefined && !Number.isInteger(modelYear)) {
+      throw new Error(`Manifest ${manifestPath}: "${entry.file}" has invalid model_year "${merged.model_year}"`);
+    }
+
+    const spec: DocumentSpec = {
+      id: merged.id || slugify(path.basename(entry.file, path.extname(entry.file))),
+      name: merged.name || displayNameFromFile(entry.file),
+      path: path.resolve(baseDir, entry.file),
+      category: merged.category,
+      model_year: modelYear,
+      vehicle_model: merged.vehicle_model,
+      language: merged.language,
+      effective_date: merged.effective_date !== undefined ? String(merged.effective_date) : undefined,
+    };
+    return spec;
+  });
+
+  assertUnique(specs, `Manifest ${manifestPath}`);
+  return specs;
+}
+
+/**
+ * Every file under `dir` with a registered loader, named after its file name
+ * (throws when two files would get the same name)
+ */
+export function scanDirectory(dir: string): DocumentSpec[] {
+  const extensions = new Set(getSupportedExtensions());
+  const files: string[] = [];
+
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (extensions.has(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+  };
+  walk(dir);
+
+  const specs = files.sort().map((file) => ({
+    id: slugify(path.relative(dir, file).replace(path.extname(file), '')),
+    name: displayNameFromFile(file),
+    path: file,
+  }));
+  // Names come from the file name alone, so a/guide.pdf and b/guide.pdf collide
+  assertUnique(specs, `Scanning ${dir}`, '; add a manifest giving them distinct names');
+  return specs;
+}
+
+/**
+ * Manifest entries when a manifest is given or present in `dir`,
+ * otherwise a directory scan
+ */
+export function resolveDocuments(dir: string, manifestPath?: string): DocumentSpec[] {
+  const manifest = manifestPath || findManifest(dir);
+  if (manifest) {
+    console.log(`📋 Using manifest: ${path.relative(process.cwd(), manifest)}`);
+    return loadManifest(manifest);
+  }
+
+  console.log(`📂 No manifest found, scanning ${path.relative(process.cwd(), dir) || '.'}`);
+  return scanDirectory(dir);
+}
+
+/**
+ * Keep documents whose id, display name or file name matches one of `names`
+ * (case-insensitive)
+ */
+export function filterDocuments(specs: DocumentSpec[], names: string[]): DocumentSpec[] {
+  const wanted = new Set(names.map((name) => name.toLowerCase()));
+  return specs.filter(
+    (spec) =>
+      wanted.has(spec.id.toLowerCase()) ||
+      wanted.has(spec.name.toLowerCase()) ||
+      wanted.has(path.basename(spec.path).toLowerCase())
+  );
+}
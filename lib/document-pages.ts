@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { getVectorStore } from './vector-store';
+
+export interface PageChunk {
+  content: string;
+  section?: string;
+  chunkHash?: string;
+}
+
+export interface DocumentPage {
+  document: string;
+  page: number;
+  /** Every page of the document that has chunks, ascending */
+  pages: number[];
+  /** Set when the original PDF is still on disk and can be served */
+  hasPdf: boolean;
+  /** The page's chunks in ingestion order */
+  chunks: PageChunk[];
+}
+
+/**
+ * Document name from a /docs route segment. Next.js 14 passes dynamic params
+ * still percent-encoded, but a segment that is already decoded (or holds a
+ * stray '%') is used as is instead of throwing a URIError.
+ */
+export function documentNameFromParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    return param;
+  }
+}
+
+/**
+ * Absolute path of an ingested source file, or null when it's missing or
+ * resolves outside the project (metadata is never trusted as a raw path)
+ */
+function resolveSourceFile(sourceFile: string | undefined): string | null {
+  if (!sourceFile) return null;
+  const root = process.cwd();
+  const resolved = path.resolve(root, sourceFile);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) return null;
+  return fs.existsSync(resolved) ? resolved : null;
+}
+
+/**
+ * Extracted text of one document page, rebuilt from the stored chunks
+ */
+export async function getDocumentPage(document: string, page: number): Promise<DocumentPage | null> {
+  const store = getVectorStore();
+  // Metadata is enough for the page list; only the requested page's text is loaded
+  const metadata = await store.getDocumentChunkMetadata(document);
+  if (metadata.length === 0) return null;
+
+  const pages = [...new Set(metadata.map((entry) => entry.page))].sort((a, b) => a - b);
+  const sourceFile = resolveSourceFile(metadata[0].source_file);
+  const chunks = pages.includes(page) ? await store.getDocumentPageChunks(document, page) : [];
+
+  return {
+    document,
+    page,
+    pages,
+    hasPdf: sourceFile !== null && path.extname(sourceFile).toLowerCase() === '.pdf',
+    // Stores return chunks in insertion order, which is reading order
+    chunks: chunks.map((chunk) => ({
+      content: chunk.content,
+      section: chunk.metadata.section,
+      chunkHash: chunk.metadata.chunk_hash,
+    })),
+  };
+}
+
+/**
+ * Path of the original PDF for a document, for /api/docs/[document]/file
+ */
+export async function getDocumentPdfPath(document: string): Promise<string | null> {
+  const [first] = await getVectorStore().getDocumentChunkMetadata(document);
+  const sourceFile = resolveSourceFile(first?.source_file);
+  return sourceFile && path.extname(sourceFile).toLowerCase() === '.pdf' ? sourceFile : null;
+}
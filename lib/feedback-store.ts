@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ExpectedSource } from './retrieval-metrics';
+import { AnswerDecision, FeedbackRating, Source } from '@/types';
+import { listFeedbackRows, updateFeedbackExpected, upsertFeedbackRow } from './supabase';
+
+/**
+ * A user's rating of one answer, with everything needed to replay it: the
+ * question, the answer and the sources (with their retrieval scores; for a
+ * declined answer, the ones the confidence gate held back)
+ */
+export interface AnswerFeedback {
+  id: string;
+  ownerId: string;
+  conversationId: string | null;
+  messageId: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string;
+  answer: string;
+  /** Sources the answer was given from, with similarity and rerankScore */
+  sources: Source[];
+  decision: AnswerDecision;
+  /** Sources a reviewer says the answer should have used (null until reviewed) */
+  expected: ExpectedSource[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewAnswerFeedback = Omit<AnswerFeedback, 'id' | 'expected' | 'createdAt' | 'updatedAt'>;
+
+export interface FeedbackStore {
+  name: string;
+  /** One entry per owner and message: rating again replaces the rating and comment */
+  submit(feedback: NewAnswerFeedback): Promise<AnswerFeedback>;
+  /** Most recent first */
+  list(options?: { rating?: FeedbackRating; limit?: number }): Promise<AnswerFeedback[]>;
+  /** null when there is no such entry */
+  setExpected(id: string, expected: ExpectedSource[] | null): Promise<AnswerFeedback | null>;
+}
+
+interface FeedbackRow {
+  id: string;
+  owner_id: string;
+  conversation_id: string | null;
+  message_id: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string;
+  answer: string;
+  sources: Source[];
+  decision: AnswerDecision;
+  expected: ExpectedSource[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toRow(feedback: NewAnswerFeedback) {
+  return {
+    owner_id: feedback.ownerId,
+    conversation_id: feedback.conversationId,
+    message_id: feedback.messageId,
+    rating: feedback.rating,
+    comment: feedback.comment,
+    question: feedback.question,
+    answer: feedback.answer,
+    sources: feedback.sources,
+    decision: feedback.decision,
+  };
+}
+
+function toFeedback(row: FeedbackRow): AnswerFeedback {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    conversationId: row.conversation_id,
+    messageId: row.message_id,
+    rating: row.rating,
+    comment: row.comment,
+    question: row.question,
+    answer: row.answer,
+    sources: row.sources,
+    decision: row.decision,
+    expected: row.expected,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Supabase backend (answer_feedback table)
+ */
+export class SupabaseFeedbackStore implements FeedbackStore {
+  name = 'supabase';
+
+  async submit(feedback: NewAnswerFeedback) {
+    return toFeedback(await upsertFeedbackRow(toRow(feedback)));
+  }
+
+  async list(options: { rating?: FeedbackRating; limit?: number } = {}) {
+    return (await listFeedbackRows(options.rating, options.limit)).map(toFeedback);
+  }
+
+  async setExpected(id: string, expected: ExpectedSource[] | null) {
+    const row = await updateFeedbackExpected(id, expected);
+    return row ? toFeedback(row) : null;
+  }
+}
+
+/**
+ * In-process backend for tests and single-instance dev servers
+ */
+export class MemoryFeedbackStore implements FeedbackStore {
+  name = 'memory';
+  protected entries: FeedbackRow[] = [];
+
+  protected async load(): Promise<void> {}
+  protected async persist(): Promise<void> {}
+
+  async submit(feedback: NewAnswerFeedback) {
+    await this.load();
+    const now = new Date().toISOString();
+    const existing = this.entries.find(
+      (entry) => entry.owner_id === feedback.ownerId && entry.message_id === feedback.messageId
+    );
+
+    let row: FeedbackRow;
+    if (existing) {
+      row = Object.assign(existing, toRow(feedback), { updated_at: now });
+    } else {
+      row = { id: crypto.randomUUID(), ...toRow(feedback), expected: null, created_at: now, updated_at: now };
+      this.entries.push(row);
+    }
+    await this.persist();
+    return toFeedback(row);
+  }
+
+  async list(options: { rating?: FeedbackRating; limit?: number } = {}) {
+    await this.load();
+    return this.entries
+      .filter((entry) => !options.rating || entry.rating === options.rating)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, options.limit ?? 100)
+      .map(toFeedback);
+  }
+
+  async setExpected(id: string, expected: ExpectedSource[] | null) {
+    await this.load();
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry) return null;
+
+    entry.expected = expected;
+    entry.updated_at = new Date().toISOString();
+    await this.persist();
+    return toFeedback(entry);
+  }
+}
+
+/**
+ * Memory backend persisted to a JSON file (local dev without Supabase)
+ */
+export class FileFeedbackStore extends MemoryFeedbackStore {
+  name = 'file';
+  private loadedMtime = -1;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load() {
+    try {
+      const { mtimeMs } = await fs.stat(this.filePath);
+      if (mtimeMs === this.loadedMtime) return;
+
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.entries = raw.feedback || [];
+      this.loadedMtime = mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  protected async persist() {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ feedback: this.entries }, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
+
+/**
+ * Reviewed feedback as golden questions for `npm run eval -- --dataset <file>.jsonl`,
+ * one JSON object per line; entries without expected sources are left out
+ */
+export function feedbackToJsonl(entries: AnswerFeedback[]): string {
+  return entries
+    .filter((entry) => entry.expected && entry.expected.length > 0)
+    .map((entry) =>
+      JSON.stringify({
+        id: `feedback-${entry.id.slice(0, 8)}`,
+        question: entry.question,
+        tags: ['feedback'],
+        expected: entry.expected,
+        // For reference when the question is reviewed again; the eval ignores them
+        comment: entry.comment ?? undefined,
+        retrieved: entry.sources.map((source) => ({ document: source.document, page: source.page })),
+      })
+    )
+    .map((line) => `${line}\n`)
+    .join('');
+}
+
+let store: FeedbackStore | null = null;
+
+/**
+ * Resolve the configured store (FEEDBACK_STORE=supabase|memory|file,
+ * defaulting to the conversation store's backend)
+ */
+export function getFeedbackStore(): FeedbackStore {
+  if (!store) {
+    const backend =
+      process.env.FEEDBACK_STORE || process.env.CONVERSATION_STORE || process.env.VECTOR_STORE || 'supabase';
+    switch (backend) {
+      case 'supabase':
+        store = new SupabaseFeedbackStore();
+        break;
+      case 'memory':
+        store = new MemoryFeedbackStore();
+        break;
+      case 'file':
+        store = new FileFeedbackStore(
+          process.env.FEEDBACK_STORE_PATH || path.join(process.cwd(), '.data', 'feedback.json')
+        );
+        break;
+      default:
+        throw new Error(`Unknown FEEDBACK_STORE: ${backend}`);
+    }
+    console.log(`👍 Feedback store: ${store.name}`);
+  }
+  return store;
+}
@@ -0,0 +1,278 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import {
+  CONDENSE_PROMPT_MARKER,
+  INTENT_PROMPT_MARKER,
+  RELEVANCE_PROMPT_MARKER,
+  SAFETY_PROMPT_MARKER,
+  VARIANTS_PROMPT_MARKER,
+} from './prompt-markers';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Minimal shape of a streamed completion chunk.
+ * Matches the OpenAI SDK chunk so the route can read `choices[0].delta.content`
+ * regardless of which provider produced it.
+ */
+export interface ChatCompletionChunk {
+  choices: Array<{ delta: { content?: string | null } }>;
+  /** Only on the last chunk (with no choices), when the provider reports it */
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+export interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** Aborting it stops the request and ends the stream */
+  signal?: AbortSignal;
+}
+
+/**
+ * Common interface for embedding + chat backends
+ */
+export interface LLMProvider {
+  name: string;
+  generateEmbedding(text: string): Promise<number[]>;
+  /** One request for many inputs; results are in input order */
+  generateEmbeddings(texts: string[]): Promise<number[][]>;
+  streamChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatCompletionOptions
+  ): Promise<AsyncIterable<ChatCompletionChunk>>;
+}
+
+/**
+ * Provider backed by any client speaking the OpenAI REST API
+ * (Azure OpenAI, api.openai.com, llama.cpp server, Ollama, vLLM, ...)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public name: string,
+    private client: OpenAI,
+    private chatModel: string,
+    private embeddingModel: string
+  ) {}
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: text,
+    });
+
+    return response.data[0].embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    // Retries are handled by the caller (see generateEmbeddings in azure-openai.ts)
+    // so that 429 backoff is applied once, per batch
+    const response = await this.client.embeddings.create(
+      { model: this.embeddingModel, input: texts },
+      { maxRetries: 0 }
+    );
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
+  async streamChatCompletion(messages: ChatMessage[], options: ChatCompletionOptions = {}) {
+    return this.client.chat.completions.create(
+      {
+        model: this.chatModel,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1000,
+        stream: true,
+        // Adds a final chunk with token counts
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+  }
+}
+
+/**
+ * Deterministic offline provider for air-gapped dev and test boxes.
+ * Embeddings are feature-hashed bags of words, so texts sharing vocabulary
+ * still land near each other; completions are canned and streamed word by word.
+ */
+export class FakeProvider implements LLMProvider {
+  name = 'fake';
+
+  constructor(
+    private dimensions: number = 1536,
+    // Pause between streamed words, to try the stop button offline
+    private streamDelayMs: number = 0
+  ) {}
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || [];
+
+    for (const token of tokens) {
+      const hash = fnv1a(token);
+      const sign = hash & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.generateEmbedding(text)));
+  }
+
+  async streamChatCompletion(messages: ChatMessage[], options: ChatCompletionOptions = {}) {
+    const reply = buildCannedReply(messages);
+    const { streamDelayMs } = this;
+    // Rough count (~4 characters per token) so usage reporting has numbers to show
+    const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+    const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const completionTokens = estimateTokens(reply);
+
+    async function* stream(): AsyncIterable<ChatCompletionChunk> {
+      for (const word of reply.split(/(?<= )/)) {
+        if (streamDelayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, streamDelayMs));
+        }
+        if (options.signal?.aborted) {
+          return;
+        }
+        yield { choices: [{ delta: { content: word } }] };
+      }
+      yield {
+        choices: [],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+    }
+
+    return stream();
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash (runs in Node and the edge runtime alike)
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Echo the question and the first retrieved source so the UI has something
+ * realistic to render without a model behind it
+ */
+function buildCannedReply(messages: ChatMessage[]): string {
+  const question = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+  const systemPrompt = messages.find((m) => m.role === 'system')?.content || '';
+
+  // Query rewriting (lib/query-rewriter.ts): attach the previous user question
+  if (systemPrompt.includes(CONDENSE_PROMPT_MARKER)) {
+    const followUp = question.match(/Follow-up question: (.+)/)?.[1] || question;
+    const previous = [...question.matchAll(/^User: (.+)$/gm)].pop()?.[1];
+    return previous ? `${followUp} (${previous})` : followUp;
+  }
+  // LLM reranking (lib/rerankers.ts): score passages by words shared with the question
+  if (systemPrompt.includes(RELEVANCE_PROMPT_MARKER)) {
+    const [, query = '', passages = ''] = question.match(/^Question: (.*)\n\nPassages:\n([\s\S]*)$/) || [];
+    const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]{4,}/g) || []);
+    const queryWords = words(query);
+    return [...passages.matchAll(/^\[(\d+)\] (.*)$/gm)]
+      .map(([, n, text]) => `${n}: ${Math.min(10, [...words(text)].filter((w) => queryWords.has(w)).length * 2)}`)
+      .join('\n');
+  }
+  // Multi-query expansion (lib/query-expansion.ts): two mechanical rephrasings
+  if (systemPrompt.includes(VARIANTS_PROMPT_MARKER)) {
+    const original = question.match(/^Question: (.+)$/m)?.[1] || question;
+    return `VoltDrive owner's manual: ${original}\n${original.replace(/\?$/, '')} troubleshooting steps`;
+  }
+  // Safety check (lib/safety.ts): nothing beyond what the rules catch
+  if (systemPrompt.includes(SAFETY_PROMPT_MARKER)) {
+    return 'none';
+  }
+  // Intent routing (lib/rag.ts): no labels, so the keyword rules decide
+  if (systemPrompt.includes(INTENT_PROMPT_MARKER)) {
+    return '';
+  }
+  const sourceMatch = systemPrompt.match(/\[Source 1: ([^\]]+)\]\n([^\n]+)/);
+
+  if (!sourceMatch) {
+    return `[fake provider] I couldn't find VoltDrive documentation covering "${question}".`;
+  }
+
+  return `[fake provider] You asked: "${question}". According to ${sourceMatch[1]}: ${sourceMatch[2]} [1]`;
+}
+
+export type LLMProviderName = 'azure' | 'openai' | 'fake';
+
+/**
+ * Build the provider named by LLM_PROVIDER (defaults to Azure).
+ * Credentials are only checked for the provider actually selected.
+ */
+export function createLLMProvider(
+  name: LLMProviderName = (process.env.LLM_PROVIDER as LLMProviderName) || 'azure'
+): LLMProvider {
+  switch (name) {
+    case 'azure': {
+      if (!process.env.AZURE_OPENAI_API_KEY) {
+        throw new Error('AZURE_OPENAI_API_KEY is not set');
+      }
+      if (!process.env.AZURE_OPENAI_ENDPOINT) {
+        throw new Error('AZURE_OPENAI_ENDPOINT is not set');
+      }
+
+      const client = new AzureOpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2025-01-01-preview',
+      });
+
+      return new OpenAICompatibleProvider(
+        'azure',
+        client,
+        process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4o-mini',
+        process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || 'text-embedding-3-small'
+      );
+    }
+
+    case 'openai': {
+      if (!process.env.OPENAI_BASE_URL) {
+        throw new Error('OPENAI_BASE_URL is not set');
+      }
+
+      const client = new OpenAI({
+        baseURL: process.env.OPENAI_BASE_URL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+      });
+
+      return new OpenAICompatibleProvider(
+        'openai',
+        client,
+        process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+        process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+      );
+    }
+
+    case 'fake':
+      return new FakeProvider(
+        parseInt(process.env.FAKE_EMBEDDING_DIMENSIONS || '1536', 10),
+        parseInt(process.env.FAKE_STREAM_DELAY_MS || '0', 10)
+      );
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
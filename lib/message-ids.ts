@@ -0,0 +1,20 @@
+import { Message } from '@/types';
+
+// Marks ids of messages the server hasn't confirmed yet
+const LOCAL_ID_PREFIX = 'local-';
+
+let counter = 0;
+
+/**
+ * Temporary id for a message shown before the server reports its stored one
+ */
+export function localMessageId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now()}-${++counter}`;
+}
+
+/**
+ * Whether the server knows this message (it can be edited, replaced or rated)
+ */
+export function isStoredMessage(message: Message): boolean {
+  return !message.id.startsWith(LOCAL_ID_PREFIX);
+}
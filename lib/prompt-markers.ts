@@ -0,0 +1,20 @@
+/**
+ * Markers in the system prompts of the helper LLM calls. The fake provider
+ * (lib/llm-provider.ts) keys its offline replies on them, so they live here,
+ * without imports, where both it and the prompt owners can use them.
+ */
+
+/** Follow-up rewriting (lib/query-rewriter.ts) */
+export const CONDENSE_PROMPT_MARKER = 'STANDALONE SEARCH QUERY';
+
+/** Intent labelling (lib/rag.ts) */
+export const INTENT_PROMPT_MARKER = 'QUERY INTENT';
+
+/** LLM reranking (lib/rerankers.ts) */
+export const RELEVANCE_PROMPT_MARKER = 'RELEVANCE SCORES';
+
+/** Multi-query variants (lib/query-expansion.ts) */
+export const VARIANTS_PROMPT_MARKER = 'QUERY VARIANTS';
+
+/** Safety classification (lib/safety.ts) */
+export const SAFETY_PROMPT_MARKER = 'SAFETY CHECK';
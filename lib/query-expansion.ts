@@ -0,0 +1,195 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { generateChatCompletionText } from './azure-openai';
+import { VARIANTS_PROMPT_MARKER } from './prompt-markers';
+
+interface ExpansionRuleSpec {
+  match: string[];
+  expand: string[];
+}
+
+interface ExpansionFile {
+  maxTerms?: number;
+  groups: Record<string, ExpansionRuleSpec[] | { enabled?: boolean; rules: ExpansionRuleSpec[] }>;
+}
+
+interface ExpansionRule {
+  group: string;
+  phrases: { phrase: string; pattern: RegExp }[];
+  expand: string[];
+}
+
+interface ExpansionDictionary {
+  maxTerms: number;
+  rules: ExpansionRule[];
+}
+
+/**
+ * One rule that fired: the phrase it matched in the query and the terms it added
+ */
+export interface ExpansionMatch {
+  group: string;
+  phrase: string;
+  terms: string[];
+}
+
+export interface ExpandedQuery {
+  /** Query with the expansion terms appended (unchanged when no rule fired) */
+  query: string;
+  /** Terms actually appended, after de-duplication and the maxTerms cap */
+  terms: string[];
+  matches: ExpansionMatch[];
+}
+
+const DEFAULT_PATH = 'query-expansions.yaml';
+const DEFAULT_MAX_TERMS = 8;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive pattern for a word or phrase. Words may be
+ * separated by any whitespace, and the last one may take a plural ending.
+ */
+export function phrasePattern(phrase: string): RegExp {
+  const words = phrase.toLowerCase().replace(/[’‘]/g, "'").trim().split(/\s+/).map(escapeRegExp);
+  return new RegExp(`(?<![a-z0-9'])${words.join('\\s+')}(?:e?s)?(?![a-z0-9'])`, 'i');
+}
+
+/**
+ * Parse and validate an expansion file (YAML or JSON)
+ */
+export function parseExpansionFile(raw: string, source: string): ExpansionDictionary {
+  const file: ExpansionFile = source.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw);
+  if (!file || typeof file.groups !== 'object' || file.groups === null) {
+    throw new Error(`Query expansion file ${source} must contain a "groups" map`);
+  }
+
+  const rules: ExpansionRule[] = [];
+  for (const [group, value] of Object.entries(file.groups)) {
+    const specs = Array.isArray(value) ? value : value?.enabled === false ? [] : value?.rules;
+    if (!Array.isArray(specs)) {
+      throw new Error(`Query expansion file ${source}: group "${group}" must be a list of rules`);
+    }
+    specs.forEach((spec, idx) => {
+      if (!Array.isArray(spec?.match) || !Array.isArray(spec?.expand) || spec.match.length === 0) {
+        throw new Error(`Query expansion file ${source}: ${group}[${idx}] needs "match" and "expand" lists`);
+      }
+      rules.push({
+        group,
+        phrases: spec.match.map((phrase) => ({ phrase: String(phrase), pattern: phrasePattern(String(phrase)) })),
+        expand: spec.expand.map(String),
+      });
+    });
+  }
+
+  const maxTerms = file.maxTerms ?? DEFAULT_MAX_TERMS;
+  if (!Number.isInteger(maxTerms) || maxTerms < 0) {
+    throw new Error(`Query expansion file ${source}: maxTerms must be a non-negative integer`);
+  }
+  return { maxTerms, rules };
+}
+
+let cached: { path: string; mtimeMs: number; dictionary: ExpansionDictionary | null } | null = null;
+
+/**
+ * The dictionary at RAG_QUERY_EXPANSIONS_PATH (default query-expansions.yaml),
+ * re-read when the file changes. A missing or invalid file disables expansion.
+ */
+function loadDictionary(): ExpansionDictionary | null {
+  const filePath = path.resolve(process.env.RAG_QUERY_EXPANSIONS_PATH || DEFAULT_PATH);
+  const mtimeMs = fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : -1;
+  if (cached && cached.path === filePath && cached.mtimeMs === mtimeMs) {
+    return cached.dictionary;
+  }
+
+  let dictionary: ExpansionDictionary | null = null;
+  try {
+    if (mtimeMs < 0) {
+      throw new Error(`${filePath} not found`);
+    }
+    dictionary = parseExpansionFile(fs.readFileSync(filePath, 'utf8'), filePath);
+  } catch (error) {
+    console.warn(`⚠️  Query expansion disabled: ${(error as Error).message}`);
+  }
+  cached = { path: filePath, mtimeMs, dictionary };
+  return dictionary;
+}
+
+/**
+ * Apply the expansion dictionary: every rule with a matching phrase adds its
+ * terms in file order, skipping words already in the query, up to maxTerms
+ */
+export function expandQuery(query: string, dictionary = loadDictionary()): ExpandedQuery {
+  if (!dictionary) {
+    return { query, terms: [], matches: [] };
+  }
+
+  const normalized = query.replace(/[’‘]/g, "'");
+  const seen = new Set(normalized.toLowerCase().match(/[a-z0-9']+/g) || []);
+  const terms: string[] = [];
+  const matches: ExpansionMatch[] = [];
+
+  for (const rule of dictionary.rules) {
+    const hit = rule.phrases.find(({ pattern }) => pattern.test(normalized));
+    if (!hit) continue;
+
+    const added: string[] = [];
+    for (const term of rule.expand) {
+      const key = term.toLowerCase();
+      if (seen.has(key) || terms.length >= dictionary.maxTerms) continue;
+      seen.add(key);
+      terms.push(term);
+      added.push(term);
+    }
+    matches.push({ group: rule.group, phrase: hit.phrase, terms: added });
+  }
+
+  return { query: terms.length > 0 ? `${query} ${terms.join(' ')}` : query, terms, matches };
+}
+
+/**
+ * 'llm': also retrieve for model-written rephrasings of the question and fuse
+ * the result lists; 'off': retrieve for the question alone
+ */
+export type MultiQueryMode = 'llm' | 'off';
+
+const VARIANTS_SYSTEM_PROMPT = `You write ${VARIANTS_PROMPT_MARKER} for searching VoltDrive electric vehicle documentation.
+
+Rephrase the customer question in different words a manual might use (synonyms, part names, the underlying symptom or policy).
+- Keep vehicle models, error codes and numbers exactly
+- Do NOT answer the question
+- Output one rephrasing per line, with no numbering and nothing else`;
+
+/**
+ * Ask the chat model for up to `count` rephrasings of the question. Returns an
+ * empty list when the call fails, so retrieval continues with the question alone.
+ */
+export async function generateQueryVariants(query: string, count: number = 3): Promise<string[]> {
+  try {
+    const output = await generateChatCompletionText(
+      [
+        { role: 'system', content: VARIANTS_SYSTEM_PROMPT },
+        { role: 'user', content: `Question: ${query}\n\nWrite ${count} rephrasings.` },
+      ],
+      { temperature: 0.3, maxTokens: 60 * count }
+    );
+
+    const seen = new Set([query.trim().toLowerCase()]);
+    return output
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["'“”]+|["'“”]+$/g, '').trim())
+      .filter((line) => {
+        const key = line.toLowerCase();
+        if (!line || line.length > Math.max(300, query.length * 4) || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, count);
+  } catch (error) {
+    console.error('Query variant generation failed, using the question alone:', error);
+    return [];
+  }
+}
@@ -0,0 +1,90 @@
+import { generateChatCompletionText } from './azure-openai';
+import { ChatMessage } from './llm-provider';
+import { CONDENSE_PROMPT_MARKER } from './prompt-markers';
+import { Message } from '@/types';
+
+export interface CondensedQuery {
+  /** The user's message as typed */
+  original: string;
+  /** Standalone query used for retrieval (same as original when no rewrite happened) */
+  rewritten: string;
+  rewrote: boolean;
+}
+
+const CONDENSE_SYSTEM_PROMPT = `You rewrite follow-up questions from a VoltDrive electric vehicle support chat into a ${CONDENSE_PROMPT_MARKER}.
+
+Rules:
+- Resolve pronouns and references ("that", "it", "the rear one") using the conversation
+- Keep the user's wording, vehicle models, part names, error codes and numbers
+- If the question is already standalone, return it unchanged
+- Do NOT answer the question
+- Output only the rewritten question on a single line`;
+
+// Recent turns are enough to resolve references; long answers are clipped
+const HISTORY_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 600;
+
+function formatHistory(history: Message[]): string {
+  return history
+    .slice(-HISTORY_MESSAGES)
+    .map((message) => {
+      const content = message.content.replace(/\s+/g, ' ').trim();
+      const clipped = content.length > MAX_MESSAGE_CHARS ? `${content.slice(0, MAX_MESSAGE_CHARS)}...` : content;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Strip labels/quotes models like to add; reject anything that isn't a plausible query
+ */
+function cleanRewrite(output: string, original: string): string | null {
+  const line = output
+    .trim()
+    .split('\n')[0]
+    .replace(/^(standalone (search )?(query|question)|rewritten( question)?|question)\s*:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
+
+  if (!line || line.length > Math.max(300, original.length * 4)) {
+    return null;
+  }
+  return line;
+}
+
+/**
+ * Rewrite the latest user turn into a standalone retrieval query using the
+ * recent conversation, so follow-ups like "how much does that cost?" embed
+ * with their subject. Returns the original message when there is no history,
+ * rewriting is disabled (RAG_QUERY_REWRITE=off) or the model call fails.
+ */
+export async function condenseQuery(message: string, history: Message[]): Promise<CondensedQuery> {
+  const unchanged = { original: message, rewritten: message, rewrote: false };
+
+  if (history.length === 0 || process.env.RAG_QUERY_REWRITE === 'off') {
+    return unchanged;
+  }
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: CONDENSE_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Conversation:\n${formatHistory(history)}\n\nFollow-up question: ${message}\n\nStandalone question:`,
+    },
+  ];
+
+  try {
+    const output = await generateChatCompletionText(messages, { temperature: 0, maxTokens: 100 });
+    const rewritten = cleanRewrite(output, message);
+    if (!rewritten) {
+      console.warn(`⚠️  Ignoring unusable query rewrite: "${output.slice(0, 100)}"`);
+      return unchanged;
+    }
+
+    console.log(`✏️  Query rewrite: "${message}" → "${rewritten}"`);
+    return { original: message, rewritten, rewrote: rewritten !== message };
+  } catch (error) {
+    console.error('Query rewrite failed, using the original message:', error);
+    return unchanged;
+  }
+}
@@ -1,153 +1,302 @@
-import { generateEmbedding } from './azure-openai';
-import { searchSimilarDocuments } from './supabase';
-import { Source } from '@/types';
+import { generateChatCompletionText, generateEmbedding } from './azure-openai';
+import { StoredDocument, getVectorStore } from './vector-store';
+import { describeFilters, toMetadataFilter } from './retrieval-filters';
+import { RerankedChunk, Reranker, RerankerName, getReranker, vectorSimilarity } from './rerankers';
+import { MultiQueryMode, expandQuery, generateQueryVariants, phrasePattern } from './query-expansion';
+import { AnswerConfidence, ConfidenceThresholds, assessConfidence, getConfidenceThresholds } from './confidence-gate';
+import { buildSafetyInstructions } from './safety';
+import { INTENT_PROMPT_MARKER } from './prompt-markers';
+import { QueryIntent, QueryRoute, RetrievalFilters, RetrievedChunk, SafetyCategory, Source } from '@/types';
 
 /**
- * Query expansion dictionary for common VoltDrive topics
- * Helps capture semantic variations and related terms
+ * 'rules': keyword cues (default), 'llm': ask the chat model, falling back to
+ * the rules, 'off': always search the whole corpus
  */
-const QUERY_EXPANSIONS: Record<string, string> = {
-  // Warranty related
-  warranty: 'warranty coverage guarantee protection insurance policy claim repair',
-  guarantee: 'warranty guarantee coverage protection assurance',
-  
-  // Starting/Power issues
-  start: 'start ignition power on boot activate turn startup launch',
-  'won\'t start': 'not starting no power dead battery ignition failure',
-  power: 'power energy electrical battery charge current',
-  
-  // Charging related
-  charge: 'charging battery power electric recharge plug cable station',
-  charging: 'charging charge recharge battery power plug station',
-  battery: 'battery charge power energy capacity cell pack',
-  
-  // Range/Efficiency
-  range: 'range distance mileage efficiency driving capacity',
-  distance: 'range distance mileage travel driving',
-  efficiency: 'efficiency range economy consumption performance',
-  
-  // Maintenance
-  maintenance: 'maintenance service repair care upkeep inspection',
-  service: 'service maintenance repair check inspection care',
-  
-  // Troubleshooting
-  problem: 'problem issue error fault trouble failure malfunction',
-  error: 'error problem issue fault warning message trouble',
-  issue: 'issue problem error trouble fault concern',
-  
-  // Performance
-  performance: 'performance speed acceleration power efficiency capability',
-  speed: 'speed performance acceleration fast velocity',
-  
-  // Price/Cost
-  price: 'price cost pricing fee charge payment rate',
-  cost: 'cost price pricing fee expense payment',
+export type IntentRouterMode = 'rules' | 'llm' | 'off';
+
+type RoutedIntent = Exclude<QueryIntent, 'general'>;
+
+/**
+ * Cues per intent. Words and phrases match whole words in the query (see
+ * phrasePattern), so 'fee' doesn't fire on "feels"; patterns match as given.
+ */
+const INTENT_CUES: Record<RoutedIntent, (string | RegExp)[]> = {
+  troubleshooting: [
+    "won't", 'wont', "doesn't", 'not working', 'not charging', 'error', 'warning', 'fault', 'problem',
+    'issue', 'fix', 'troubleshoot', 'reset', 'stuck', 'fail', 'failed', 'failing', 'failure', 'broken',
+    'noise', 'dead', 'light on', 'drops', 'slow', 'keeps',
+  ],
+  warranty: [
+    'warranty', 'warranties', 'covered', 'coverage', 'claim', 'guarantee', 'void', 'exclusion', 'exclude',
+    'excluded', 'defect', 'defective',
+  ],
+  // A dollar amount ("$450") counts as a price cue
+  pricing: ['price', 'pricing', 'cost', 'how much', 'fee', /\$\s?\d/, 'pay', 'expensive', 'cheap', 'quote', 'subscription'],
 };
 
+const INTENT_CUE_PATTERNS = Object.fromEntries(
+  Object.entries(INTENT_CUES).map(([intent, cues]) => [
+    intent,
+    cues.map((cue) => (typeof cue === 'string' ? phrasePattern(cue) : cue)),
+  ])
+) as Record<RoutedIntent, RegExp[]>;
+
 /**
- * Expand user query with related terms to improve retrieval
+ * Words in a document's name or manifest category that mark it as the place
+ * to search for an intent
  */
-function expandQuery(query: string): string {
-  const lowerQuery = query.toLowerCase();
-  let expandedTerms: string[] = [];
-  
-  // Check for matching terms
-  for (const [key, expansion] of Object.entries(QUERY_EXPANSIONS)) {
-    if (lowerQuery.includes(key.toLowerCase())) {
-      // Add expansion terms (limit to avoid over-expansion)
-      const terms = expansion.split(' ').slice(0, 5);
-      expandedTerms.push(...terms);
-    }
+const INTENT_DOCUMENT_HINTS: Record<RoutedIntent, string[]> = {
+  troubleshooting: ['troubleshooting', 'diagnostic'],
+  warranty: ['warranty'],
+  pricing: ['pricing', 'price'],
+};
+
+const INTENT_SYSTEM_PROMPT = `You label questions from a VoltDrive electric vehicle support chat with their ${INTENT_PROMPT_MARKER}.
+
+Labels:
+- troubleshooting: something isn't working, warning lights, error messages, diagnostics
+- warranty: what is covered, warranty terms, claims, exclusions
+- pricing: prices, costs, fees, what a repair or service costs
+- general: anything else
+
+Reply with the matching labels only, comma-separated, most relevant first. Use more than one label only when the question clearly spans them.`;
+
+/**
+ * Keyword-cue intent scores; intents scoring at least half the top score are
+ * kept, so "is a battery replacement covered and what does it cost?" routes
+ * to both warranty and pricing
+ */
+export function classifyIntentByRules(query: string): QueryIntent[] {
+  // Typographic apostrophes, so "won’t" matches the "won't" cue
+  const normalized = query.replace(/[’‘]/g, "'");
+  const scores = (Object.keys(INTENT_CUE_PATTERNS) as RoutedIntent[])
+    .map((intent) => ({
+      intent,
+      score: INTENT_CUE_PATTERNS[intent].filter((pattern) => pattern.test(normalized)).length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scores.length === 0) return ['general'];
+  return scores.filter(({ score }) => score >= scores[0].score / 2).map(({ intent }) => intent);
+}
+
+async function classifyIntentWithLLM(query: string): Promise<QueryIntent[] | null> {
+  try {
+    const output = await generateChatCompletionText(
+      [
+        { role: 'system', content: INTENT_SYSTEM_PROMPT },
+        { role: 'user', content: query },
+      ],
+      { temperature: 0, maxTokens: 20 }
+    );
+    const labels = (output.toLowerCase().match(/troubleshooting|warranty|pricing|general/g) || []) as QueryIntent[];
+    return labels.length > 0 ? [...new Set(labels)] : null;
+  } catch (error) {
+    console.error('Intent classification failed, using rules:', error);
+    return null;
   }
-  
-  // Remove duplicates and limit total expansion
-  expandedTerms = [...new Set(expandedTerms)].slice(0, 8);
-  
-  // Combine original query with expanded terms
-  const expandedQuery = expandedTerms.length > 0
-    ? `${query} ${expandedTerms.join(' ')}`
-    : query;
-  
-  return expandedQuery;
+}
+
+// Document list used for routing; refreshed at most once a minute
+const DOCUMENT_CACHE_MS = 60_000;
+let documentCache: { documents: StoredDocument[]; loadedAt: number } | null = null;
+
+async function listRoutableDocuments(): Promise<StoredDocument[]> {
+  if (!documentCache || Date.now() - documentCache.loadedAt > DOCUMENT_CACHE_MS) {
+    documentCache = { documents: await getVectorStore().listDocuments(), loadedAt: Date.now() };
+  }
+  return documentCache.documents;
 }
 
 /**
- * Calculate keyword overlap between query and content
- * Used for re-ranking results
+ * Classify the question and pick the documents to search. Returns no
+ * documents (search everything) for general questions or when an intent has
+ * no matching document, so routing never hides content it can't place.
  */
-function calculateKeywordRelevance(query: string, content: string): number {
-  // Extract meaningful words (remove common stop words)
-  const stopWords = new Set([
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-    'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'been', 'be',
-    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'can', 'about', 'into', 'through', 'during',
-    'before', 'after', 'above', 'below', 'between', 'under', 'again',
-    'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why',
-    'how', 'all', 'both', 'each', 'few', 'more', 'most', 'other', 'some',
-    'such', 'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just'
-  ]);
-  
-  const queryWords = query
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ') // Remove punctuation
-    .split(/\s+/)
-    .filter(word => word.length > 2 && !stopWords.has(word));
-  
-  const contentLower = content.toLowerCase();
-  
-  // Count exact matches
-  let exactMatches = 0;
-  let partialMatches = 0;
-  
-  for (const word of queryWords) {
-    if (contentLower.includes(` ${word} `) || contentLower.startsWith(word) || contentLower.endsWith(word)) {
-      exactMatches++;
-    } else if (contentLower.includes(word)) {
-      partialMatches += 0.5;
+export async function routeQuery(
+  query: string,
+  mode: IntentRouterMode = (process.env.RAG_INTENT_ROUTER as IntentRouterMode) || 'rules'
+): Promise<QueryRoute> {
+  if (mode === 'off') {
+    return { intents: ['general'], via: 'off', documents: [] };
+  }
+
+  const llmIntents = mode === 'llm' ? await classifyIntentWithLLM(query) : null;
+  const intents = llmIntents || classifyIntentByRules(query);
+  const via = llmIntents ? 'llm' : 'rules';
+  if (intents.includes('general')) {
+    return { intents, via, documents: [] };
+  }
+
+  const available = await listRoutableDocuments();
+  const documents = new Set<string>();
+  for (const intent of intents as RoutedIntent[]) {
+    const hints = INTENT_DOCUMENT_HINTS[intent];
+    const matches = available.filter(
+      (doc) =>
+        doc.category?.toLowerCase() === intent ||
+        hints.some((hint) => doc.document.toLowerCase().includes(hint))
+    );
+    if (matches.length === 0) {
+      return { intents, via, documents: [] };
     }
+    matches.forEach((doc) => documents.add(doc.document));
   }
-  
-  const totalMatches = exactMatches + partialMatches;
-  const relevanceScore = queryWords.length > 0 ? totalMatches / queryWords.length : 0;
-  
-  return Math.min(relevanceScore, 1.0); // Cap at 1.0
+
+  return { intents, via, documents: [...documents] };
+}
+
+interface RankedCandidates {
+  reranked: RerankedChunk[];
+  /** The results kept for the context */
+  top: RerankedChunk[];
+  /** Confidence of the kept results (before the gate is applied or skipped) */
+  assessed: AnswerConfidence;
 }
 
 /**
- * Re-rank results using hybrid scoring
- * Combines vector similarity with keyword relevance
+ * Rerank candidates and assess the kept ones. Chunks already in `scored` (an
+ * earlier pass for the same query) keep their score, so only new chunks cost
+ * a rerank (an LLM call with the 'llm' reranker).
  */
-function rerankResults(
+async function rankCandidates(
   query: string,
-  documents: any[],
-  vectorWeight: number = 0.7,
-  keywordWeight: number = 0.3
-): any[] {
-  return documents.map(doc => {
-    const keywordRelevance = calculateKeywordRelevance(query, doc.content);
-    
-    // Hybrid score: weighted combination
-    const hybridScore = (doc.similarity * vectorWeight) + (keywordRelevance * keywordWeight);
-    
-    return {
-      ...doc,
-      originalSimilarity: doc.similarity,
-      keywordRelevance,
-      similarity: hybridScore, // Update similarity with hybrid score
-    };
-  }).sort((a, b) => b.similarity - a.similarity);
+  candidates: RetrievedChunk[],
+  reranker: Reranker,
+  keep: number,
+  thresholds: ConfidenceThresholds,
+  scored: RerankedChunk[] = []
+): Promise<RankedCandidates> {
+  const previous = new Map(scored.map((doc) => [String(doc.id), doc]));
+  const unscored = candidates.filter((doc) => !previous.has(String(doc.id)));
+  const reranked = [
+    ...candidates.flatMap((doc) => previous.get(String(doc.id)) ?? []),
+    ...(unscored.length > 0 ? await reranker.rerank(query, unscored) : []),
+  ].sort((a, b) => b.rerankScore - a.rerankScore || b.similarity - a.similarity);
+  const top = reranked.slice(0, keep);
+  return { reranked, top, assessed: assessConfidence(top.map((doc) => doc.rerankScore), thresholds) };
+}
+
+/**
+ * Merge per-document result lists by rank: every list's first match, then
+ * every list's second, and so on. Scores aren't compared across lists (in
+ * 'rrf' mode each list's fused scores are relative to that list), and each
+ * chunk keeps its own.
+ */
+function mergeResults(lists: RetrievedChunk[][]): RetrievedChunk[] {
+  const byId = new Map<string, RetrievedChunk>();
+  const longest = Math.max(0, ...lists.map((results) => results.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const doc of lists.flatMap((results) => results[rank] ?? [])) {
+      const key = String(doc.id);
+      if (!byId.has(key)) byId.set(key, doc);
+    }
+  }
+  return [...byId.values()];
+}
+
+export interface RRFOptions {
+  /** Rank offset; larger values flatten the gap between top and lower ranks (default 60) */
+  k?: number;
+  /** Weight of the vector ranking (default 1) */
+  vectorWeight?: number;
+  /** Weight of the BM25/full-text ranking (default 1) */
+  lexicalWeight?: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+type RankedList = {
+  results: RetrievedChunk[];
+  weight: number;
+  /** Copy this list's per-chunk scores onto the fused chunk */
+  apply: (chunk: RetrievedChunk, doc: RetrievedChunk) => void;
+};
+
+/**
+ * Reciprocal rank fusion: each chunk scores weight / (k + rank) per list it
+ * appears in; `similarity` is that sum scaled so a chunk ranked first in
+ * every list scores 1.
+ */
+function reciprocalRankFusion(lists: RankedList[], k: number): RetrievedChunk[] {
+  const best = lists.reduce((sum, list) => sum + list.weight, 0) / (k + 1) || 1;
+  const fused = new Map<string, { chunk: RetrievedChunk; score: number }>();
+  for (const { results, weight, apply } of lists) {
+    results.forEach((doc, rank) => {
+      const key = String(doc.id);
+      const entry = fused.get(key) || {
+        chunk: { id: doc.id, content: doc.content, metadata: doc.metadata, similarity: 0, fused: true },
+        score: 0,
+      };
+      entry.score += weight / (k + rank + 1);
+      apply(entry.chunk, doc);
+      fused.set(key, entry);
+    });
+  }
+
+  return [...fused.values()]
+    .map(({ chunk, score }) => ({ ...chunk, similarity: score / best }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Fuse a vector and a lexical result list ('rrf' hybrid mode)
+ */
+function fuseByRank(vector: RetrievedChunk[], lexical: RetrievedChunk[], options: RRFOptions = {}): RetrievedChunk[] {
+  return reciprocalRankFusion(
+    [
+      {
+        results: vector,
+        weight: options.vectorWeight ?? envNumber('RAG_RRF_VECTOR_WEIGHT', 1),
+        apply: (chunk, doc) => (chunk.vector_similarity = doc.similarity),
+      },
+      {
+        results: lexical,
+        weight: options.lexicalWeight ?? envNumber('RAG_RRF_LEXICAL_WEIGHT', 1),
+        apply: (chunk, doc) => (chunk.keyword_rank = doc.keyword_rank ?? doc.similarity),
+      },
+    ],
+    options.k ?? envNumber('RAG_RRF_K', 60)
+  );
+}
+
+/**
+ * Fuse the result lists of several query variants (multi-query expansion),
+ * keeping each chunk's best raw vector and keyword scores
+ */
+function fuseVariants(lists: RetrievedChunk[][], options: RRFOptions = {}): RetrievedChunk[] {
+  const keepBest = (chunk: RetrievedChunk, doc: RetrievedChunk) => {
+    const vector = vectorSimilarity(doc);
+    if (vector !== undefined) {
+      chunk.vector_similarity = Math.max(chunk.vector_similarity ?? 0, vector);
+    }
+    if (doc.keyword_rank !== undefined) {
+      chunk.keyword_rank = Math.max(chunk.keyword_rank ?? 0, doc.keyword_rank);
+    }
+  };
+  return reciprocalRankFusion(
+    lists.map((results) => ({ results, weight: 1, apply: keepBest })),
+    options.k ?? envNumber('RAG_RRF_K', 60)
+  );
 }
 
 /**
  * Build context from retrieved documents
  */
-export function buildContext(documents: any[]): { context: string; sources: Source[] } {
+export function buildContext(documents: RerankedChunk[]): { context: string; sources: Source[] } {
   const sources: Source[] = documents.map((doc) => ({
     document: doc.metadata.document,
     page: doc.metadata.page,
     content: doc.content, // Already plain
-    similarity: doc.similarity,
+    // Raw vector similarity, never a fused score (those live in rerankScore);
+    // unset for lexical-only hits in 'rrf' mode
+    similarity: vectorSimilarity(doc),
+    rerankScore: doc.rerankScore,
+    chunkHash: doc.metadata.chunk_hash,
   }));
 
   const context = documents
@@ -162,9 +311,13 @@ export function buildContext(documents: any[]): { context: string; sources: Sour
 /**
  * Build system prompt for RAG with emphasis on accuracy
  */
-export function buildSystemPrompt(context: string): string {
+export function buildSystemPrompt(
+  context: string,
+  options: { caveat?: boolean; safety?: SafetyCategory[] } = {}
+): string {
+  const safety = buildSafetyInstructions(options.safety);
   return `You are a helpful VoltDrive customer support assistant. You help customers with questions about their VoltDrive electric vehicles.
-
+${safety ? `\n${safety}\n` : ''}
 Use the following context from VoltDrive documentation to answer questions. The context includes relevant excerpts with source information.
 
 Context from VoltDrive documentation:
@@ -172,12 +325,72 @@ ${context}
 
 Instructions:
 - Be friendly, professional, and concise
-- ALWAYS cite specific sources when providing information (e.g., "According to the Troubleshooting Guide, page 3...")
+- ALWAYS cite the sources you use with inline markers matching the source numbers above, placed right after the statement they support (e.g., "Hold the brake pedal while pressing START [1].")
+- Cite several sources as separate markers ("[1][3]"), and never cite a source number that isn't listed above
 - If the answer isn't fully covered in the context, say so clearly and offer to help with related topics
 - Focus on practical, actionable advice
 - Use the customer's terminology but clarify technical terms when needed
 - If multiple sources provide relevant information, synthesize them coherently
-- Prioritize safety and accuracy over being comprehensive`;
+- Prioritize safety and accuracy over being comprehensive${
+    options.caveat
+      ? `
+- The context only partially matches this question: say up front that you're not fully certain, answer only what the context supports, and suggest confirming with a VoltDrive support agent`
+      : ''
+  }`;
+}
+
+/**
+ * System prompt when the confidence gate declines: say so instead of guessing
+ */
+export function buildRefusalPrompt(safetyCategories: SafetyCategory[] = []): string {
+  const safety = buildSafetyInstructions(safetyCategories);
+  return `You are a helpful VoltDrive customer support assistant.
+${safety ? `\n${safety}\n` : ''}
+The VoltDrive documentation doesn't cover this question well enough to answer it reliably.
+
+Instructions:
+- Say briefly that you couldn't find this in the VoltDrive documentation; do NOT guess or answer from general knowledge
+- Offer to connect the customer with a VoltDrive support agent, who can follow up on this
+- Mention what you can help with instead: troubleshooting, warranty and coverage, charging and battery, vehicle operation, maintenance schedules
+- Invite them to rephrase the question if they meant one of those topics`;
+}
+
+export type HybridMode = 'client' | 'database' | 'rrf';
+
+export interface RAGOptions {
+  /**
+   * 'client': vector search, then rerankResults in JS (default)
+   * 'database': one hybrid_search call fusing vector similarity and full-text rank
+   * 'rrf': vector search and corpus-wide BM25/full-text search in parallel,
+   *   combined by reciprocal rank fusion
+   * Defaults to RAG_HYBRID_MODE when not given.
+   */
+  hybridMode?: HybridMode;
+  /** Fusion weights for 'rrf' mode (k also applies to multi-query). Default to RAG_RRF_K / RAG_RRF_*_WEIGHT. */
+  rrf?: RRFOptions;
+  /**
+   * 'llm' also retrieves for model-written rephrasings of the question and
+   * fuses the lists by reciprocal rank. Defaults to RAG_MULTI_QUERY or 'off'.
+   */
+  multiQuery?: MultiQueryMode;
+  /** Suppress the step-by-step retrieval logging (batch evaluation) */
+  quiet?: boolean;
+  /** Restrict retrieval to a vehicle model, year, category or language */
+  filters?: RetrievalFilters;
+  /** How questions are routed to documents. Defaults to RAG_INTENT_ROUTER or 'rules'. */
+  intentRouter?: IntentRouterMode;
+  /**
+   * Candidate reranker. Defaults to RAG_RERANKER, else 'heuristic' in client
+   * mode and 'none' in the modes that already fuse keyword rank.
+   */
+  reranker?: RerankerName;
+  /**
+   * Gate the answer on the best reranked score: answer, answer with a caveat,
+   * or decline. Defaults to on unless RAG_CONFIDENCE_GATE=off.
+   */
+  confidenceGate?: boolean;
+  /** Safety-critical categories flagged for the question; adds mandatory instructions to the prompt */
+  safety?: SafetyCategory[];
 }
 
 /**
@@ -187,78 +400,168 @@ Instructions:
 export async function performRAG(
   query: string,
   topK: number = 8, // Retrieve more initially for re-ranking
-  similarityThreshold: number = 0.2 // Lower threshold to get more candidates
+  similarityThreshold: number = 0.2, // Lower threshold to get more candidates
+  options: RAGOptions = {}
 ) {
-  console.log('🔍 RAG Query:', query);
-  
-  // Step 1: Expand query for better semantic coverage
-  const expandedQuery = expandQuery(query);
-  if (expandedQuery !== query) {
-    console.log('📝 Expanded query:', expandedQuery);
+  const hybridMode = options.hybridMode || (process.env.RAG_HYBRID_MODE as HybridMode) || 'client';
+  const log = options.quiet ? () => {} : console.log;
+  log('🔍 RAG Query:', query);
+  const filter = toMetadataFilter(options.filters);
+  if (Object.keys(filter).length > 0) {
+    log('🚗 Filters:', describeFilters(options.filters));
   }
   
-  // Step 2: Generate embedding for the expanded query
-  const queryEmbedding = await generateEmbedding(expandedQuery);
-  console.log('✅ Generated embedding, length:', queryEmbedding.length);
-
-  // Step 3: Search for similar documents with lower threshold
-  const documents = await searchSimilarDocuments(
-    queryEmbedding,
-    topK,
-    similarityThreshold
+  // Step 1: Expand the query (and its rephrasings, with multi-query) from the
+  // expansion dictionary for better semantic coverage
+  const multiQuery = options.multiQuery || (process.env.RAG_MULTI_QUERY as MultiQueryMode) || 'off';
+  const variants = [query];
+  if (multiQuery === 'llm') {
+    variants.push(...(await generateQueryVariants(query, envNumber('RAG_MULTI_QUERY_COUNT', 3))));
+    log('🔀 Query variants:', variants.slice(1));
+  }
+  const expansions = variants.map((variant) => expandQuery(variant));
+  for (const expansion of expansions) {
+    for (const match of expansion.matches) {
+      log(`📝 Expansion ${match.group}/"${match.phrase}" → ${match.terms.join(', ') || '(nothing new)'}`);
+    }
+  }
+  if (expansions[0].query !== query) {
+    log('📝 Expanded query:', expansions[0].query);
+  }
+
+  // Step 2: Generate an embedding for each expanded variant
+  const queryEmbeddings = await Promise.all(expansions.map((expansion) => generateEmbedding(expansion.query)));
+  log('✅ Generated embedding, length:', queryEmbeddings[0].length);
+
+  // Step 3: Route the question to the documents that answer its intent, then
+  // search them (the whole corpus when unrouted or nothing matched)
+  // In database and rrf modes keyword rank is already fused into `similarity`
+  const store = getVectorStore();
+  const searchVariant = async (
+    text: string,
+    queryEmbedding: number[],
+    documentName?: string
+  ): Promise<RetrievedChunk[]> => {
+    const searchOptions = {
+      matchCount: topK,
+      matchThreshold: similarityThreshold,
+      filter: documentName ? { ...filter, document: documentName } : filter,
+    };
+    switch (hybridMode) {
+      case 'database':
+        return store.hybridSearch(queryEmbedding, text, searchOptions);
+      case 'rrf': {
+        const [vector, lexical] = await Promise.all([
+          store.search(queryEmbedding, searchOptions),
+          store.lexicalSearch(text, searchOptions),
+        ]);
+        return fuseByRank(vector, lexical, options.rrf).slice(0, topK);
+      }
+      default:
+        return documentName
+          ? store.searchByDocument(queryEmbedding, documentName, { ...searchOptions, filter })
+          : store.search(queryEmbedding, searchOptions);
+    }
+  };
+  const search = async (documentName?: string): Promise<RetrievedChunk[]> => {
+    const lists = await Promise.all(
+      variants.map((text, i) => searchVariant(text, queryEmbeddings[i], documentName))
+    );
+    return lists.length > 1 ? fuseVariants(lists, options.rrf).slice(0, topK) : lists[0];
+  };
+
+  // Step 4: Re-rank (by default skipped when the database already fused keyword
+  // rank) and keep the top results, scored against the confidence thresholds
+  const reranker = getReranker(
+    options.reranker ||
+      (process.env.RAG_RERANKER as RerankerName) ||
+      (hybridMode === 'client' ? 'heuristic' : 'none')
   );
-  console.log('📚 Found documents:', documents?.length || 0);
+  const thresholds = getConfidenceThresholds(reranker.name, hybridMode);
+  const rank = async (candidates: RetrievedChunk[], scored?: RerankedChunk[]) => {
+    log(`🔄 Re-ranking ${candidates.length} candidates with ${reranker.name}...`);
+    return rankCandidates(query, candidates, reranker, Math.min(5, topK), thresholds, scored);
+  };
+
+  let route = await routeQuery(query, options.intentRouter);
+  let documents: RetrievedChunk[] = [];
+  let ranked: RankedCandidates | null = null;
+  if (route.documents.length > 0) {
+    log(`🧭 Intent: ${route.intents.join(' + ')} (${route.via}) → ${route.documents.join(', ')}`);
+    const perDocument = await Promise.all(route.documents.map((documentName) => search(documentName)));
+    documents = mergeResults(perDocument);
+    ranked = documents.length > 0 ? await rank(documents) : null;
+
+    // Routing only narrows the search: when the routed documents match weakly
+    // (below the answer threshold) or not at all, search everything and keep
+    // whichever set scores better. Chunks both searches found keep their
+    // first rerank score.
+    if (!ranked || ranked.assessed.decision !== 'answer') {
+      log(`🧭 ${ranked ? 'Weak' : 'No'} matches in routed documents, searching everything`);
+      const everywhere = await search();
+      const rankedEverywhere = everywhere.length > 0 ? await rank(everywhere, ranked?.reranked) : null;
+      if (rankedEverywhere && (!ranked || rankedEverywhere.assessed.score > ranked.assessed.score)) {
+        documents = everywhere;
+        ranked = rankedEverywhere;
+        route = { ...route, documents: [] };
+      } else if (ranked) {
+        log('🧭 Whole-corpus search was no better, keeping the routed matches');
+      }
+    }
+  } else {
+    documents = await search();
+    ranked = documents.length > 0 ? await rank(documents) : null;
+  }
+  log(`📚 Found documents (${hybridMode} hybrid):`, documents?.length || 0);
   
-  if (documents && documents.length > 0) {
-    console.log('📊 Initial retrieval scores:');
+  if (ranked) {
+    log('📊 Initial retrieval scores:');
     documents.slice(0, 3).forEach((doc, i) => {
-      console.log(`  ${i + 1}. Similarity: ${doc.similarity.toFixed(3)}, Doc: ${doc.metadata?.document}, Page: ${doc.metadata?.page}`);
+      log(`  ${i + 1}. Similarity: ${doc.similarity.toFixed(3)}, Doc: ${doc.metadata?.document}, Page: ${doc.metadata?.page}`);
     });
     
-    // Step 4: Re-rank using hybrid scoring
-    console.log('🔄 Re-ranking with hybrid scoring...');
-    const rerankedDocs = rerankResults(query, documents);
-    
-    console.log('✨ After re-ranking:');
-    rerankedDocs.slice(0, 5).forEach((doc, i) => {
-      console.log(`  ${i + 1}. Hybrid: ${doc.similarity.toFixed(3)} (vector: ${doc.originalSimilarity.toFixed(3)}, keyword: ${doc.keywordRelevance.toFixed(3)})`);
-      console.log(`     Doc: ${doc.metadata?.document}, Page: ${doc.metadata?.page}`);
+    log('✨ After re-ranking:');
+    ranked.reranked.slice(0, 5).forEach((doc, i) => {
+      log(`  ${i + 1}. Rerank: ${doc.rerankScore.toFixed(3)} (vector: ${vectorSimilarity(doc)?.toFixed(3) ?? 'n/a'}${doc.keyword_rank !== undefined ? `, keyword: ${doc.keyword_rank.toFixed(3)}` : ''})`);
+      log(`     Doc: ${doc.metadata?.document}, Page: ${doc.metadata?.page}`);
     });
     
     // Step 5: Filter to top results after re-ranking
-    const topResults = rerankedDocs.slice(0, Math.min(5, topK));
-    
-    // Build context and return
+    const topResults = ranked.top;
     const { context, sources } = buildContext(topResults);
-    const systemPrompt = buildSystemPrompt(context);
-    
-    console.log(`📝 Built context with ${sources.length} sources`);
-    console.log(`🎯 Confidence range: ${(topResults[0]?.similarity * 100).toFixed(1)}% - ${(topResults[topResults.length - 1]?.similarity * 100).toFixed(1)}%`);
-    
+    log(`🎯 Rerank score range: ${(topResults[0]?.rerankScore * 100).toFixed(1)}% - ${(topResults[topResults.length - 1]?.rerankScore * 100).toFixed(1)}%`);
+
+    // Step 6: Confidence gate, so weak matches aren't presented as authoritative
+    const assessed = ranked.assessed;
+    const gate = options.confidenceGate ?? process.env.RAG_CONFIDENCE_GATE !== 'off';
+    const confidence: AnswerConfidence = gate ? assessed : { ...assessed, decision: 'answer' };
+    log(`🎚️  Confidence ${assessed.score.toFixed(3)} (answer ≥ ${assessed.thresholds.answer}, caveat ≥ ${assessed.thresholds.caveat}) → ${confidence.decision}`);
+
+    if (confidence.decision === 'refuse') {
+      // The held-back sources stay available as `candidates` (for the handoff summary)
+      return { context: '', sources: [], candidates: sources, route, confidence, systemPrompt: buildRefusalPrompt(options.safety) };
+    }
+
+    log(`📝 Built context with ${sources.length} sources`);
     return {
       context,
       sources,
-      systemPrompt,
+      candidates: sources,
+      systemPrompt: buildSystemPrompt(context, { caveat: confidence.decision === 'caveat', safety: options.safety }),
+      route,
+      confidence,
     };
   }
 
   // Fallback if no documents found
-  console.log('⚠️ No documents found - using fallback');
+  log('⚠️ No documents found - using fallback');
   return {
     context: '',
-    sources: [],
-    systemPrompt: `You are a helpful VoltDrive customer support assistant. 
-
-I apologize, but I couldn't find specific information in the VoltDrive documentation to answer your question. 
-
-However, I'm here to help! I can assist with:
-- Troubleshooting common issues
-- Warranty and coverage questions  
-- Charging and battery information
-- General vehicle operation
-- Maintenance schedules
-
-Could you rephrase your question or ask about one of these topics?`,
+    sources: [] as Source[],
+    candidates: [] as Source[],
+    route,
+    confidence: assessConfidence([], thresholds),
+    systemPrompt: buildRefusalPrompt(options.safety),
   };
 }
 
@@ -271,9 +574,16 @@ export function logRAGPerformance(sources: Source[]) {
     return;
   }
   
-  const avgSimilarity = sources.reduce((sum, s) => sum + s.similarity, 0) / sources.length;
-  const minSimilarity = Math.min(...sources.map(s => s.similarity));
-  const maxSimilarity = Math.max(...sources.map(s => s.similarity));
+  // Lexical-only 'rrf' hits have no vector similarity to report
+  const similarities = sources.flatMap((s) => (s.similarity === undefined ? [] : [s.similarity]));
+  if (similarities.length === 0) {
+    console.log('📈 RAG Performance: no vector similarities (lexical matches only)');
+    return;
+  }
+
+  const avgSimilarity = similarities.reduce((sum, s) => sum + s, 0) / similarities.length;
+  const minSimilarity = Math.min(...similarities);
+  const maxSimilarity = Math.max(...similarities);
   
   console.log('📈 RAG Performance:');
   console.log(`   Sources: ${sources.length}`);
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ChatCompletionChunk, ChatCompletionOptions, ChatMessage, LLMProvider } from './llm-provider';
+
+export type RecordingMode = 'record' | 'replay';
+
+interface Recording {
+  /** Hash of the full prompt (system prompt and retrieved context included); the only match key */
+  promptHash: string;
+  /** Last user message, to make the file readable; never used for matching */
+  question: string;
+  completion: string;
+}
+
+interface RecordingFile {
+  /** Provider the prompts were built with: its embeddings decide what retrieval puts in them */
+  provider?: string;
+  recordings: Recording[];
+}
+
+function hashMessages(messages: ChatMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex');
+}
+
+function lastUserMessage(messages: ChatMessage[]): string {
+  return [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+}
+
+/**
+ * Wraps a provider so chat completions can be recorded once against a real
+ * model and replayed offline (CI). Embeddings always go to the wrapped provider.
+ * Recordings are keyed by the hash of the whole prompt, so a replay never
+ * answers one prompt with another prompt's completion.
+ */
+export class RecordedProvider implements LLMProvider {
+  name: string;
+  private recordings: Recording[] = [];
+  private recordedWith?: string;
+
+  constructor(
+    private base: LLMProvider,
+    private filePath: string,
+    private mode: RecordingMode
+  ) {
+    this.name = `${mode}(${base.name})`;
+    if (fs.existsSync(filePath)) {
+      const file: RecordingFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      this.recordings = file.recordings || [];
+      this.recordedWith = file.provider;
+    } else if (mode === 'replay') {
+      throw new Error(`No recordings at ${filePath}; run with --completions record first`);
+    }
+
+    // Other embeddings retrieve other context, so no prompt hash would match
+    if (mode === 'replay' && this.recordedWith && this.recordedWith !== base.name) {
+      throw new Error(
+        `Recordings at ${filePath} were made with LLM_PROVIDER=${this.recordedWith}; replay them with the same provider (current: ${base.name})`
+      );
+    }
+  }
+
+  generateEmbedding(text: string) {
+    return this.base.generateEmbedding(text);
+  }
+
+  generateEmbeddings(texts: string[]) {
+    return this.base.generateEmbeddings(texts);
+  }
+
+  async streamChatCompletion(messages: ChatMessage[], options?: ChatCompletionOptions) {
+    const promptHash = hashMessages(messages);
+    const question = lastUserMessage(messages);
+    let completion: string;
+
+    if (this.mode === 'replay') {
+      const recording = this.recordings.find((r) => r.promptHash === promptHash);
+      if (!recording) {
+        throw new Error(
+          `No recorded completion for this prompt ("${question.slice(0, 80)}"); the prompt or retrieved context changed since recording, run with --completions record`
+        );
+      }
+      completion = recording.completion;
+    } else {
+      completion = '';
+      for await (const chunk of await this.base.streamChatCompletion(messages, options)) {
+        completion += chunk.choices[0]?.delta?.content || '';
+      }
+      // Only a re-recording of the same prompt is replaced
+      this.recordings = this.recordings.filter((r) => r.promptHash !== promptHash);
+      this.recordings.push({ promptHash, question, completion });
+      this.recordedWith = this.base.name;
+      this.save();
+    }
+
+    async function* stream(): AsyncIterable<ChatCompletionChunk> {
+      yield { choices: [{ delta: { content: completion } }] };
+    }
+    return stream();
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Stable order so re-recording produces small diffs
+    const sorted = [...this.recordings].sort(
+      (a, b) => a.question.localeCompare(b.question) || a.promptHash.localeCompare(b.promptHash)
+    );
+    const file: RecordingFile = { provider: this.recordedWith, recordings: sorted };
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+  }
+}
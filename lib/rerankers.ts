@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { generateChatCompletionText } from './azure-openai';
+import { BM25, tokenize } from './bm25';
+import { RELEVANCE_PROMPT_MARKER } from './prompt-markers';
+import { RetrievedChunk } from '@/types';
+
+export type RerankerName = 'heuristic' | 'bm25' | 'llm' | 'none';
+
+export const RERANKER_NAMES: RerankerName[] = ['heuristic', 'bm25', 'llm', 'none'];
+
+export interface RerankedChunk extends RetrievedChunk {
+  /** Reranker score the results are ordered by; `similarity` stays the raw retrieval score */
+  rerankScore: number;
+}
+
+/**
+ * Reorders retrieval candidates for one query. Implementations must return
+ * every candidate, sorted by rerankScore descending.
+ */
+export interface Reranker {
+  name: RerankerName;
+  rerank(query: string, candidates: RetrievedChunk[]): Promise<RerankedChunk[]>;
+}
+
+/**
+ * Raw vector similarity of a candidate. hybrid_search and rank-fused results
+ * carry a fused score in `similarity`, so a chunk only the lexical search
+ * found in 'rrf' mode has none (undefined).
+ */
+export function vectorSimilarity(doc: RetrievedChunk): number | undefined {
+  return doc.vector_similarity ?? (doc.fused ? undefined : doc.similarity);
+}
+
+// Blend the raw vector part; lexical-only hits contribute nothing here
+function vectorScore(doc: RetrievedChunk): number {
+  return vectorSimilarity(doc) ?? 0;
+}
+
+function sortByScore(chunks: RerankedChunk[]): RerankedChunk[] {
+  return chunks.sort((a, b) => b.rerankScore - a.rerankScore || b.similarity - a.similarity);
+}
+
+/**
+ * Calculate keyword overlap between query and content
+ * Used for re-ranking results
+ */
+function calculateKeywordRelevance(query: string, content: string): number {
+  // Extract meaningful words (remove common stop words)
+  const stopWords = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+    'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'been', 'be',
+    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+    'should', 'may', 'might', 'can', 'about', 'into', 'through', 'during',
+    'before', 'after', 'above', 'below', 'between', 'under', 'again',
+    'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why',
+    'how', 'all', 'both', 'each', 'few', 'more', 'most', 'other', 'some',
+    'such', 'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just'
+  ]);
+
+  const queryWords = query
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ') // Remove punctuation
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !stopWords.has(word));
+
+  const contentLower = content.toLowerCase();
+
+  // Count exact matches
+  let exactMatches = 0;
+  let partialMatches = 0;
+
+  for (const word of queryWords) {
+    if (contentLower.includes(` ${word} `) || contentLower.startsWith(word) || contentLower.endsWith(word)) {
+      exactMatches++;
+    } else if (contentLower.includes(word)) {
+      partialMatches += 0.5;
+    }
+  }
+
+  const totalMatches = exactMatches + partialMatches;
+  const relevanceScore = queryWords.length > 0 ? totalMatches / queryWords.length : 0;
+
+  return Math.min(relevanceScore, 1.0); // Cap at 1.0
+}
+
+/**
+ * The original hybrid scoring: vector similarity blended with substring
+ * keyword overlap
+ */
+export class HeuristicReranker implements Reranker {
+  name: RerankerName = 'heuristic';
+
+  constructor(
+    private vectorWeight: number = 0.7,
+    private keywordWeight: number = 0.3
+  ) {}
+
+  async rerank(query: string, candidates: RetrievedChunk[]) {
+    return sortByScore(
+      candidates.map((doc) => ({
+        ...doc,
+        rerankScore:
+          vectorScore(doc) * this.vectorWeight + calculateKeywordRelevance(query, doc.content) * this.keywordWeight,
+      }))
+    );
+  }
+}
+
+/**
+ * Vector similarity blended with BM25 over the candidate set, normalized so
+ * the best lexical match scores 1
+ */
+export class BM25Reranker implements Reranker {
+  name: RerankerName = 'bm25';
+
+  constructor(
+    private vectorWeight: number = 0.7,
+    private keywordWeight: number = 0.3
+  ) {}
+
+  async rerank(query: string, candidates: RetrievedChunk[]) {
+    const bm25 = new BM25(candidates.map((doc) => tokenize(doc.content)));
+    const scores = bm25.scoreAll(tokenize(query));
+    const best = Math.max(0, ...scores);
+
+    return sortByScore(
+      candidates.map((doc, i) => ({
+        ...doc,
+        rerankScore: vectorScore(doc) * this.vectorWeight + (best > 0 ? scores[i] / best : 0) * this.keywordWeight,
+      }))
+    );
+  }
+}
+
+const RELEVANCE_SYSTEM_PROMPT = `You judge how well passages from VoltDrive electric vehicle documentation answer a customer question, returning ${RELEVANCE_PROMPT_MARKER}.
+
+Score each passage from 0 (unrelated) to 10 (directly answers the question).
+Reply with one line per passage in the form "<passage number>: <score>" and nothing else.`;
+
+const PASSAGES_PER_CALL = 8;
+const MAX_PASSAGE_CHARS = 700;
+const CACHE_LIMIT = 2000;
+
+/**
+ * Chat model judges each candidate's relevance (0-1). Candidates are sent in
+ * batches, and scores are cached per query and chunk text so repeated
+ * questions cost nothing. Falls back to the heuristic when the model fails.
+ */
+export class LLMReranker implements Reranker {
+  name: RerankerName = 'llm';
+  private cache = new Map<string, number>();
+  private fallback = new HeuristicReranker();
+
+  private cacheKey(query: string, content: string): string {
+    return crypto.createHash('sha256').update(`${query.trim().toLowerCase()}\n${content}`).digest('hex');
+  }
+
+  private remember(key: string, score: number) {
+    // Map keeps insertion order, so the first key is the oldest
+    if (this.cache.size >= CACHE_LIMIT) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, score);
+  }
+
+  private async scoreBatch(query: string, batch: RetrievedChunk[]): Promise<number[]> {
+    const passages = batch
+      .map((doc, i) => `[${i + 1}] ${doc.content.replace(/\s+/g, ' ').slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+    const output = await generateChatCompletionText(
+      [
+        { role: 'system', content: RELEVANCE_SYSTEM_PROMPT },
+        { role: 'user', content: `Question: ${query}\n\nPassages:\n${passages}` },
+      ],
+      { temperature: 0, maxTokens: 10 * batch.length }
+    );
+
+    const scores = new Array<number>(batch.length).fill(NaN);
+    for (const match of output.matchAll(/^\s*\[?(\d+)\]?\s*[:=-]\s*(\d+(?:\.\d+)?)/gm)) {
+      const index = parseInt(match[1], 10) - 1;
+      if (index >= 0 && index < batch.length) {
+        scores[index] = Math.min(parseFloat(match[2]), 10) / 10;
+      }
+    }
+    if (scores.some(Number.isNaN)) {
+      throw new Error(`Unparseable relevance scores: "${output.slice(0, 100)}"`);
+    }
+    return scores;
+  }
+
+  async rerank(query: string, candidates: RetrievedChunk[]) {
+    const keys = candidates.map((doc) => this.cacheKey(query, doc.content));
+    const scores = keys.map((key) => this.cache.get(key));
+    const uncached = candidates.map((_, i) => i).filter((i) => scores[i] === undefined);
+
+    try {
+      const batches: number[][] = [];
+      for (let i = 0; i < uncached.length; i += PASSAGES_PER_CALL) {
+        batches.push(uncached.slice(i, i + PASSAGES_PER_CALL));
+      }
+      const results = await Promise.all(
+        batches.map((batch) => this.scoreBatch(query, batch.map((i) => candidates[i])))
+      );
+      batches.forEach((batch, b) =>
+        batch.forEach((candidate, i) => {
+          scores[candidate] = results[b][i];
+          this.remember(keys[candidate], results[b][i]);
+        })
+      );
+    } catch (error) {
+      console.error('LLM reranking failed, using the heuristic:', error);
+      return this.fallback.rerank(query, candidates);
+    }
+
+    return sortByScore(candidates.map((doc, i) => ({ ...doc, rerankScore: scores[i] ?? 0 })));
+  }
+}
+
+/**
+ * Keeps the store's order; for hybrid_search, whose score already fuses
+ * keyword rank
+ */
+export class NoopReranker implements Reranker {
+  name: RerankerName = 'none';
+
+  async rerank(_query: string, candidates: RetrievedChunk[]) {
+    return sortByScore(candidates.map((doc) => ({ ...doc, rerankScore: doc.similarity })));
+  }
+}
+
+const rerankers = new Map<RerankerName, Reranker>();
+
+/**
+ * Shared reranker instance by name (the LLM reranker's cache lives across requests)
+ */
+export function getReranker(name: RerankerName): Reranker {
+  let reranker = rerankers.get(name);
+  if (!reranker) {
+    switch (name) {
+      case 'heuristic':
+        reranker = new HeuristicReranker();
+        break;
+      case 'bm25':
+        reranker = new BM25Reranker();
+        break;
+      case 'llm':
+        reranker = new LLMReranker();
+        break;
+      case 'none':
+        reranker = new NoopReranker();
+        break;
+      default:
+        throw new Error(`Unknown reranker: ${name}. Use one of: ${RERANKER_NAMES.join(', ')}`);
+    }
+    rerankers.set(name, reranker);
+  }
+  return reranker;
+}
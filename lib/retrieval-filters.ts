@@ -0,0 +1,55 @@
+import { RetrievalFilters, VehicleOption } from '@/types';
+import { MetadataFilter, StoredDocument } from './vector-store';
+
+/**
+ * Validate filters from a request body, dropping unknown keys and empty values
+ */
+export function parseRetrievalFilters(input: unknown): RetrievalFilters {
+  if (!input || typeof input !== 'object') return {};
+  const raw = input as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const year = Number(raw.modelYear);
+
+  const filters: RetrievalFilters = {
+    vehicleModel: text(raw.vehicleModel),
+    modelYear: raw.modelYear != null && Number.isInteger(year) ? year : undefined,
+    category: text(raw.category),
+    language: text(raw.language),
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Map filters onto the chunk metadata keys written by ingestion
+ */
+export function toMetadataFilter(filters: RetrievalFilters = {}): MetadataFilter {
+  const filter: MetadataFilter = {};
+  if (filters.vehicleModel) filter.vehicle_model = filters.vehicleModel;
+  if (filters.modelYear !== undefined) filter.model_year = filters.modelYear;
+  if (filters.category) filter.category = filters.category;
+  if (filters.language) filter.language = filters.language;
+  return filter;
+}
+
+/**
+ * "VoltDrive Aurora 2024" style label for logs and the UI
+ */
+export function describeFilters(filters: RetrievalFilters = {}): string {
+  return [filters.vehicleModel, filters.modelYear, filters.category, filters.language].filter(Boolean).join(', ');
+}
+
+/**
+ * Distinct vehicle model/year pairs among the stored documents, for the
+ * vehicle selector
+ */
+export function listVehicles(documents: StoredDocument[]): VehicleOption[] {
+  const vehicles = new Map<string, VehicleOption>();
+  for (const doc of documents) {
+    if (!doc.vehicleModel) continue;
+    const key = `${doc.vehicleModel}|${doc.modelYear ?? ''}`;
+    vehicles.set(key, { vehicleModel: doc.vehicleModel, ...(doc.modelYear ? { modelYear: doc.modelYear } : {}) });
+  }
+  return [...vehicles.values()].sort(
+    (a, b) => a.vehicleModel.localeCompare(b.vehicleModel) || (b.modelYear ?? 0) - (a.modelYear ?? 0)
+  );
+}
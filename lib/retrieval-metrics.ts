@@ -0,0 +1,104 @@
+/**
+ * Ranking metrics for retrieval evaluation (scripts/eval-retrieval.ts).
+ * Relevance is binary: a retrieved source is relevant when it matches an
+ * expected document (and page, when the golden item specifies one).
+ */
+
+export interface ExpectedSource {
+  document: string;
+  /** Omit to accept any page of the document */
+  page?: number;
+}
+
+export interface RankedSource {
+  document: string;
+  page: number;
+}
+
+export interface RankingMetrics {
+  /** Share of expected sources found in the top k, keyed by k */
+  recall: Record<number, number>;
+  /** Binary nDCG over the top k, keyed by k */
+  ndcg: Record<number, number>;
+  /** 1 / rank of the first relevant source, 0 when none was retrieved */
+  reciprocalRank: number;
+  /** 1-based rank of the first relevant source */
+  firstRelevantRank: number | null;
+}
+
+function matches(expected: ExpectedSource, source: RankedSource): boolean {
+  return expected.document === source.document && (expected.page === undefined || expected.page === source.page);
+}
+
+/**
+ * For each rank, the index of the expected source it satisfies for the first
+ * time, or -1. Several chunks from the same page only count once.
+ */
+function judge(retrieved: RankedSource[], expected: ExpectedSource[]): number[] {
+  const found = new Set<number>();
+  return retrieved.map((source) => {
+    const index = expected.findIndex((item, i) => !found.has(i) && matches(item, source));
+    if (index >= 0) found.add(index);
+    return index;
+  });
+}
+
+export function evaluateRanking(
+  retrieved: RankedSource[],
+  expected: ExpectedSource[],
+  ks: number[]
+): RankingMetrics {
+  const judgments = judge(retrieved, expected);
+  const firstIndex = judgments.findIndex((index) => index >= 0);
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+
+  for (const k of ks) {
+    const hits = judgments.slice(0, k).filter((index) => index >= 0).length;
+    recall[k] = expected.length > 0 ? hits / expected.length : 0;
+
+    const dcg = judgments
+      .slice(0, k)
+      .reduce((sum, index, rank) => sum + (index >= 0 ? 1 / Math.log2(rank + 2) : 0), 0);
+    let idcg = 0;
+    for (let rank = 0; rank < Math.min(k, expected.length); rank++) {
+      idcg += 1 / Math.log2(rank + 2);
+    }
+    ndcg[k] = idcg > 0 ? dcg / idcg : 0;
+  }
+
+  return {
+    recall,
+    ndcg,
+    reciprocalRank: firstIndex >= 0 ? 1 / (firstIndex + 1) : 0,
+    firstRelevantRank: firstIndex >= 0 ? firstIndex + 1 : null,
+  };
+}
+
+export interface MetricSummary {
+  count: number;
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  mrr: number;
+}
+
+/**
+ * Mean of each metric across questions
+ */
+export function summarizeMetrics(results: RankingMetrics[], ks: number[]): MetricSummary {
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+
+  for (const k of ks) {
+    recall[k] = mean(results.map((result) => result.recall[k]));
+    ndcg[k] = mean(results.map((result) => result.ndcg[k]));
+  }
+
+  return {
+    count: results.length,
+    recall,
+    ndcg,
+    mrr: mean(results.map((result) => result.reciprocalRank)),
+  };
+}
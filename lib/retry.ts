@@ -0,0 +1,66 @@
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Rate limits, timeouts, server errors and dropped connections are worth
+ * retrying; other 4xx responses (bad input, auth) will fail the same way again
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.status;
+  if (typeof status !== 'number') {
+    // No HTTP status: connection reset, DNS failure, timeout
+    return true;
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Server-requested wait in ms from `retry-after-ms` / `retry-after`
+ * (seconds or an HTTP date), if the error carries response headers
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+
+  const read = (name: string): string | null | undefined =>
+    typeof headers.get === 'function' ? headers.get(name) : headers[name];
+
+  const retryAfterMs = Number(read('retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Run `fn`, retrying retryable failures with exponential backoff and jitter.
+ * A `retry-after` from the server takes precedence over the computed delay.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxRetries = 5, baseDelayMs = 500, maxDelayMs = 30000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = getRetryAfterMs(error) ?? backoff / 2 + Math.random() * (backoff / 2);
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
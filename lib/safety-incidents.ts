@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { SafetyCategory } from '@/types';
+import { insertSafetyIncidentRow, listSafetyIncidentRows } from './supabase';
+
+/**
+ * A question the safety classifier flagged, kept for review
+ */
+export interface SafetyIncident {
+  id: string;
+  ownerId: string;
+  conversationId: string | null;
+  message: string;
+  categories: SafetyCategory[];
+  /** Which classifier flagged it: 'rules' or 'llm' */
+  via: string;
+  /** Phrases the rules matched (empty for LLM flags) */
+  matched: string[];
+  createdAt: string;
+}
+
+export type NewSafetyIncident = Omit<SafetyIncident, 'id' | 'createdAt'>;
+
+export interface SafetyIncidentLog {
+  name: string;
+  record(incident: NewSafetyIncident): Promise<SafetyIncident>;
+  /** Most recent first */
+  list(limit?: number): Promise<SafetyIncident[]>;
+}
+
+interface SafetyIncidentRow {
+  id: string;
+  owner_id: string;
+  conversation_id: string | null;
+  message: string;
+  categories: SafetyCategory[];
+  via: string;
+  matched: string[];
+  created_at: string;
+}
+
+function toRow(incident: NewSafetyIncident): Omit<SafetyIncidentRow, 'id' | 'created_at'> {
+  return {
+    owner_id: incident.ownerId,
+    conversation_id: incident.conversationId,
+    message: incident.message,
+    categories: incident.categories,
+    via: incident.via,
+    matched: incident.matched,
+  };
+}
+
+function toIncident(row: SafetyIncidentRow): SafetyIncident {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    conversationId: row.conversation_id,
+    message: row.message,
+    categories: row.categories,
+    via: row.via,
+    matched: row.matched,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Supabase backend (safety_incidents table)
+ */
+export class SupabaseSafetyIncidentLog implements SafetyIncidentLog {
+  name = 'supabase';
+
+  async record(incident: NewSafetyIncident) {
+    return toIncident(await insertSafetyIncidentRow(toRow(incident)));
+  }
+
+  async list(limit: number = 100) {
+    return (await listSafetyIncidentRows(limit)).map(toIncident);
+  }
+}
+
+/**
+ * In-process backend for tests and single-instance dev servers
+ */
+export class MemorySafetyIncidentLog implements SafetyIncidentLog {
+  name = 'memory';
+  protected incidents: SafetyIncidentRow[] = [];
+
+  protected async load(): Promise<void> {}
+  protected async persist(): Promise<void> {}
+
+  async record(incident: NewSafetyIncident) {
+    await this.load();
+    const row: SafetyIncidentRow = {
+      id: crypto.randomUUID(),
+      ...toRow(incident),
+      created_at: new Date().toISOString(),
+    };
+    this.incidents.push(row);
+    await this.persist();
+    return toIncident(row);
+  }
+
+  async list(limit: number = 100) {
+    await this.load();
+    return [...this.incidents]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(toIncident);
+  }
+}
+
+/**
+ * Memory backend persisted to a JSON file (local dev without Supabase)
+ */
+export class FileSafetyIncidentLog extends MemorySafetyIncidentLog {
+  name = 'file';
+  private loadedMtime = -1;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async load() {
+    try {
+      const { mtimeMs } = await fs.stat(this.filePath);
+      if (mtimeMs === this.loadedMtime) return;
+
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.incidents = raw.incidents || [];
+      this.loadedMtime = mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  protected async persist() {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ incidents: this.incidents }, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
+
+let log: SafetyIncidentLog | null = null;
+
+/**
+ * Resolve the configured log (SAFETY_INCIDENT_STORE=supabase|memory|file,
+ * defaulting to the conversation store's backend)
+ */
+export function getSafetyIncidentLog(): SafetyIncidentLog {
+  if (!log) {
+    const backend =
+      process.env.SAFETY_INCIDENT_STORE || process.env.CONVERSATION_STORE || process.env.VECTOR_STORE || 'supabase';
+    switch (backend) {
+      case 'supabase':
+        log = new SupabaseSafetyIncidentLog();
+        break;
+      case 'memory':
+        log = new MemorySafetyIncidentLog();
+        break;
+      case 'file':
+        log = new FileSafetyIncidentLog(
+          process.env.SAFETY_INCIDENT_STORE_PATH || path.join(process.cwd(), '.data', 'safety-incidents.json')
+        );
+        break;
+      default:
+        throw new Error(`Unknown SAFETY_INCIDENT_STORE: ${backend}`);
+    }
+    console.log(`🚨 Safety incident log: ${log.name}`);
+  }
+  return log;
+}
@@ -0,0 +1,158 @@
+import { generateChatCompletionText } from './azure-openai';
+import { SAFETY_PROMPT_MARKER } from './prompt-markers';
+import { SafetyCategory, SafetyNotice } from '@/types';
+
+/**
+ * 'rules': keyword patterns (default), 'llm': also ask the chat model when
+ * the rules find nothing, 'off': never flag
+ */
+export type SafetyCheckMode = 'rules' | 'llm' | 'off';
+
+export const SAFETY_CATEGORIES: SafetyCategory[] = ['high_voltage', 'fire_smoke', 'thermal_event', 'collision'];
+
+export interface SafetyAssessment {
+  triggered: boolean;
+  categories: SafetyCategory[];
+  via: 'rules' | 'llm' | 'off';
+  /** Text that triggered each rule, for the incident log */
+  matched: string[];
+}
+
+// Patterns err on the side of flagging: a false alarm costs a banner, a miss could cost much more
+const SAFETY_RULES: Record<SafetyCategory, RegExp[]> = {
+  high_voltage: [
+    /\bhigh[- ]?voltage\b/i,
+    /\b(?:orange|hv) (?:cables?|wires?|connectors?)\b/i,
+    /\b(?:damaged|cracked|punctured|leaking|dented|swollen|bulging) (?:hv |high[- ]voltage |traction )?battery\b/i,
+    /\bbattery (?:pack )?(?:is |was |got )?(?:damaged|cracked|punctured|leaking|dented|swollen|bulging)\b/i,
+    /\b(?:open|opening|repair|repairing|fix|fixing|remove|removing) (?:the |my )?(?:battery pack|traction battery|hv battery|high[- ]voltage battery)\b/i,
+    /\belectric(?:al)? shock\b|\b(?:got |been )?shocked\b/i,
+    /\b(?:flooded|submerged|under ?water)\b/i,
+  ],
+  fire_smoke: [
+    /\b(?:fire|flames?|on fire|burning|smok(?:e|ing|y))\b/i,
+    /\bsparks?\b|\bsparking\b/i,
+  ],
+  thermal_event: [
+    /\bthermal (?:runaway|event)\b/i,
+    /\boverheat(?:s|ed|ing)?\b/i,
+    /\b(?:battery|pack) (?:is |was |getting |got )?(?:very |really |extremely )?hot\b/i,
+    /\b(?:hissing|popping|crackling) (?:sounds?|noises?)\b/i,
+    /\bbattery temperature (?:warning|alert)\b/i,
+  ],
+  collision: [
+    /\b(?:crash|crashed|collision|collided|accident|rear[- ]ended|fender[- ]bender|rolled over)\b/i,
+    /\b(?:hit|struck) (?:by |a |an |another )\w+/i,
+  ],
+};
+
+/**
+ * Steps the answer must lead with, per category
+ */
+const SAFETY_INSTRUCTIONS: Record<SafetyCategory, string> = {
+  high_voltage:
+    'Tell the customer not to touch, open or try to repair the high-voltage battery, orange cables or any damaged component, and to keep clear of a vehicle whose pack is damaged or that has been submerged. The vehicle must be towed to a VoltDrive service center (or VoltDrive Roadside Assistance called), not driven.',
+  fire_smoke:
+    'If there is smoke, fire, sparks or a burning smell: stop safely, switch off, get everyone out and at least 15 m (50 ft) away, and call emergency services (911 in the US), telling them it is an electric vehicle. Never try to put out a battery fire themselves.',
+  thermal_event:
+    'Overheating, hissing or popping from the battery can come before a fire: stop safely, get everyone out and away from the vehicle, call emergency services, and do not drive or charge it again until VoltDrive service has inspected it.',
+  collision:
+    'After a collision: make sure everyone is safe and call emergency services if anyone is hurt, keep away from damaged high-voltage parts, and do not drive or charge the vehicle until VoltDrive service has inspected the high-voltage system.',
+};
+
+// Short banner lines shown above the answer
+const BANNER_STEPS: Record<SafetyCategory, string> = {
+  high_voltage: "Don't touch or try to repair the high-voltage battery or orange cables. Have the vehicle towed to VoltDrive service.",
+  fire_smoke: 'Smoke, fire or a burning smell: get everyone out, move at least 15 m (50 ft) away and call emergency services.',
+  thermal_event: "An overheating battery can catch fire: stop, get out and away, and call emergency services. Don't drive or charge it.",
+  collision: "After a crash, call emergency services if anyone is hurt. Don't drive or charge until the high-voltage system is inspected.",
+};
+
+/**
+ * Categories whose patterns match the text, with the matching phrases
+ */
+export function classifySafetyByRules(text: string): { categories: SafetyCategory[]; matched: string[] } {
+  const categories: SafetyCategory[] = [];
+  const matched: string[] = [];
+  for (const category of SAFETY_CATEGORIES) {
+    const hits = SAFETY_RULES[category].map((pattern) => text.match(pattern)?.[0]).filter(Boolean) as string[];
+    if (hits.length > 0) {
+      categories.push(category);
+      matched.push(...hits);
+    }
+  }
+  return { categories, matched: [...new Set(matched.map((hit) => hit.toLowerCase()))] };
+}
+
+const SAFETY_SYSTEM_PROMPT = `You run a ${SAFETY_PROMPT_MARKER} on messages sent to VoltDrive electric vehicle customer support.
+
+Flag a message if it describes or asks about any of these:
+- high_voltage: damaged, leaking or flooded high-voltage battery, orange cables, electric shock, opening or repairing the pack
+- fire_smoke: fire, smoke, sparks or a burning smell
+- thermal_event: battery overheating, thermal runaway, hissing or popping from the battery
+- collision: a crash, accident or impact involving the vehicle
+
+Reply with the matching labels separated by commas, or "none". Output nothing else.`;
+
+async function classifySafetyWithLLM(text: string): Promise<SafetyCategory[]> {
+  const output = await generateChatCompletionText(
+    [
+      { role: 'system', content: SAFETY_SYSTEM_PROMPT },
+      { role: 'user', content: text },
+    ],
+    { temperature: 0, maxTokens: 20 }
+  );
+  return SAFETY_CATEGORIES.filter((category) => output.toLowerCase().includes(category));
+}
+
+/**
+ * Decide whether a message touches a safety-critical topic. In 'llm' mode the
+ * model is only asked when the rules find nothing, and it can add categories
+ * but never clear a rule hit; if the call fails the rules' answer stands.
+ */
+export async function classifySafety(
+  text: string,
+  mode: SafetyCheckMode = (process.env.RAG_SAFETY_CHECK as SafetyCheckMode) || 'rules'
+): Promise<SafetyAssessment> {
+  if (mode === 'off') {
+    return { triggered: false, categories: [], via: 'off', matched: [] };
+  }
+
+  const rules = classifySafetyByRules(text);
+  if (rules.categories.length > 0 || mode !== 'llm') {
+    return { triggered: rules.categories.length > 0, ...rules, via: 'rules' };
+  }
+
+  try {
+    const categories = await classifySafetyWithLLM(text);
+    return { triggered: categories.length > 0, categories, via: 'llm', matched: [] };
+  } catch (error) {
+    console.error('LLM safety check failed, using the rules:', error);
+    return { triggered: false, ...rules, via: 'rules' };
+  }
+}
+
+/**
+ * Mandatory system prompt block for flagged questions (empty when none)
+ */
+export function buildSafetyInstructions(categories: SafetyCategory[] = []): string {
+  if (categories.length === 0) {
+    return '';
+  }
+  return `SAFETY-CRITICAL QUESTION (mandatory, overrides every other instruction):
+- Start the answer with these safety steps, before anything else:
+${categories.map((category) => `  - ${SAFETY_INSTRUCTIONS[category]}`).join('\n')}
+- Do NOT give do-it-yourself repair, inspection or reset steps for high-voltage, battery or crash-damaged components, even if the context contains them
+- Keep the tone calm and direct`;
+}
+
+/**
+ * Banner sent to the client ahead of the answer
+ */
+export function buildSafetyNotice(categories: SafetyCategory[]): SafetyNotice {
+  return {
+    categories,
+    title: 'Safety first',
+    steps: categories.map((category) => BANNER_STEPS[category]),
+  };
+}
@@ -1,24 +1,41 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
-if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-  throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_URL');
-}
-if (!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
-  throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_ANON_KEY');
+let supabaseClient: SupabaseClient | null = null;
+let supabaseAdminClient: SupabaseClient | null = null;
+
+function requireSupabaseUrl(): string {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_URL');
+  }
+  if (!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_ANON_KEY');
+  }
+  return process.env.NEXT_PUBLIC_SUPABASE_URL;
 }
 
 // Client for browser/client-side operations
-export const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-);
+// Created on first use so non-Supabase vector stores need no credentials
+export function getSupabase(): SupabaseClient {
+  if (!supabaseClient) {
+    supabaseClient = createClient(
+      requireSupabaseUrl(),
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+  }
+  return supabaseClient;
+}
 
 // Admin client for server-side operations (ingestion, etc.)
 // Uses service role key to bypass RLS policies
-export const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-);
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!supabaseAdminClient) {
+    supabaseAdminClient = createClient(
+      requireSupabaseUrl(),
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+  }
+  return supabaseAdminClient;
+}
 
 /**
  * STANDARD vector similarity search
@@ -27,12 +44,14 @@ export const supabaseAdmin = createClient(
 export async function searchSimilarDocuments(
   queryEmbedding: number[],
   matchCount: number = 5,
-  matchThreshold: number = 0.7
+  matchThreshold: number = 0.7,
+  filter: Record<string, any> = {}
 ) {
-  const { data, error } = await supabase.rpc('match_documents', {
+  const { data, error } = await getSupabase().rpc('match_documents', {
     query_embedding: queryEmbedding,
     match_count: matchCount,
     match_threshold: matchThreshold,
+    filter,
   });
 
   if (error) {
@@ -53,15 +72,17 @@ export async function hybridSearch(
   matchCount: number = 8,
   similarityThreshold: number = 0.3,
   vectorWeight: number = 0.7,
-  keywordWeight: number = 0.3
+  keywordWeight: number = 0.3,
+  filter: Record<string, any> = {}
 ) {
-  const { data, error } = await supabase.rpc('hybrid_search', {
+  const { data, error } = await getSupabase().rpc('hybrid_search', {
     query_embedding: queryEmbedding,
     query_text: queryText,
     match_count: matchCount,
     similarity_threshold: similarityThreshold,
     vector_weight: vectorWeight,
     keyword_weight: keywordWeight,
+    filter,
   });
 
   if (error) {
@@ -72,6 +93,28 @@ export async function hybridSearch(
   return data;
 }
 
+/**
+ * Full-text keyword search over the whole corpus (any query term matches)
+ */
+export async function keywordSearch(
+  queryText: string,
+  matchCount: number = 8,
+  filter: Record<string, any> = {}
+) {
+  const { data, error } = await getSupabase().rpc('keyword_search', {
+    query_text: queryText,
+    match_count: matchCount,
+    filter,
+  });
+
+  if (error) {
+    console.error('Error in keyword search:', error);
+    throw error;
+  }
+
+  return data;
+}
+
 /**
  * Search within a specific document
  */
@@ -79,13 +122,15 @@ export async function searchByDocument(
   queryEmbedding: number[],
   documentName: string,
   matchCount: number = 5,
-  matchThreshold: number = 0.5
+  matchThreshold: number = 0.5,
+  filter: Record<string, any> = {}
 ) {
-  const { data, error } = await supabase.rpc('search_by_document', {
+  const { data, error } = await getSupabase().rpc('search_by_document', {
     query_embedding: queryEmbedding,
     document_name: documentName,
     match_count: matchCount,
     match_threshold: matchThreshold,
+    filter,
   });
 
   if (error) {
@@ -106,7 +151,7 @@ export async function insertDocumentChunks(
     metadata: Record<string, any>;
   }>
 ) {
-  const { data, error } = await supabaseAdmin
+  const { data, error } = await getSupabaseAdmin()
     .from('document_chunks')
     .insert(chunks)
     .select();
@@ -123,7 +168,7 @@ export async function insertDocumentChunks(
  * Clear all documents from the database
  */
 export async function clearAllDocuments() {
-  const { error } = await supabaseAdmin
+  const { error } = await getSupabaseAdmin()
     .from('document_chunks')
     .delete()
     .neq('id', 0); // Delete all rows
@@ -134,11 +179,154 @@ export async function clearAllDocuments() {
   }
 }
 
+/**
+ * List stored documents with their content hash, chunk count and manifest fields
+ */
+export async function listDocuments(): Promise<
+  Array<{
+    document: string;
+    document_hash: string | null;
+    chunk_count: number;
+    category: string | null;
+    vehicle_model: string | null;
+    model_year: number | null;
+    language: string | null;
+  }>
+> {
+  const { data, error } = await getSupabaseAdmin().rpc('list_documents');
+
+  if (error) {
+    console.error('Error listing documents:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch all chunks (with embeddings) for one document, paging past the
+ * PostgREST row limit
+ */
+export async function getDocumentChunks(documentName: string) {
+  const pageSize = 1000;
+  const rows: Array<{ content: string; embedding: number[]; metadata: Record<string, any> }> = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await getSupabaseAdmin()
+      .from('document_chunks')
+      .select('content, embedding, metadata')
+      .eq('metadata->>document', documentName)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching document chunks:', error);
+      throw error;
+    }
+
+    // pgvector columns come back as '[0.1,0.2,...]' strings
+    for (const row of data || []) {
+      rows.push({
+        ...row,
+        embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding,
+      });
+    }
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Chunk metadata (no content or embeddings) for one document, in ingestion
+ * order, paging past the PostgREST row limit
+ */
+export async function getDocumentChunkMetadata(documentName: string) {
+  const pageSize = 1000;
+  const rows: Array<Record<string, any>> = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await getSupabaseAdmin()
+      .from('document_chunks')
+      .select('metadata')
+      .eq('metadata->>document', documentName)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching document chunk metadata:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []).map((row) => row.metadata));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Text and metadata (no embeddings) of the chunks on one document page
+ */
+export async function getDocumentPageChunks(documentName: string, page: number) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('document_chunks')
+    .select('content, metadata')
+    .eq('metadata->>document', documentName)
+    .eq('metadata->>page', String(page))
+    .order('id');
+
+  if (error) {
+    console.error('Error fetching document page chunks:', error);
+    throw error;
+  }
+
+  return (data || []) as Array<{ content: string; metadata: Record<string, any> }>;
+}
+
+/**
+ * Replace one document's chunks in a single transaction
+ */
+export async function replaceDocumentChunks(
+  documentName: string,
+  chunks: Array<{
+    content: string;
+    embedding: number[];
+    metadata: Record<string, any>;
+  }>
+) {
+  const { error } = await getSupabaseAdmin().rpc('replace_document_chunks', {
+    document_name: documentName,
+    chunks,
+  });
+
+  if (error) {
+    console.error('Error replacing document chunks:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete every chunk belonging to one document
+ */
+export async function deleteDocumentChunks(documentName: string) {
+  const { error } = await getSupabaseAdmin()
+    .from('document_chunks')
+    .delete()
+    .eq('metadata->>document', documentName);
+
+  if (error) {
+    console.error('Error deleting document chunks:', error);
+    throw error;
+  }
+}
+
 /**
  * Get statistics about stored documents
  */
 export async function getDocumentStats() {
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('document_chunks')
     .select('metadata', { count: 'exact' });
 
@@ -165,7 +353,7 @@ export async function getDocumentStats() {
  * Useful for debugging retrieval quality
  */
 export async function analyzeSimilarityDistribution(queryEmbedding: number[]) {
-  const { data, error } = await supabase.rpc('analyze_similarity_distribution', {
+  const { data, error } = await getSupabase().rpc('analyze_similarity_distribution', {
     query_embedding: queryEmbedding,
   });
 
@@ -176,3 +364,268 @@ export async function analyzeSimilarityDistribution(queryEmbedding: number[]) {
 
   return data;
 }
+
+/**
+ * Conversations for one anonymous owner, most recently active first
+ */
+export async function listConversationRows(ownerId: string, limit: number = 50) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('conversations')
+    .select('id, title, created_at, updated_at')
+    .eq('owner_id', ownerId)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error listing conversations:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * One conversation (scoped to its owner) with its messages in order
+ */
+export async function getConversationRow(ownerId: string, conversationId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('conversations')
+    .select('id, title, created_at, updated_at, messages (id, role, content, sources, handoff, safety, held_back_sources, created_at)')
+    .eq('owner_id', ownerId)
+    .eq('id', conversationId)
+    .order('created_at', { referencedTable: 'messages', ascending: true })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching conversation:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Create an empty conversation
+ */
+export async function insertConversationRow(ownerId: string, title: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('conversations')
+    .insert({ owner_id: ownerId, title })
+    .select('id, title, created_at, updated_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating conversation:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Append a message and bump the conversation's updated_at
+ */
+export async function insertMessageRow(
+  conversationId: string,
+  message: {
+    id?: string;
+    role: 'user' | 'assistant';
+    content: string;
+    sources?: unknown[];
+    handoff?: unknown;
+    safety?: unknown;
+    held_back_sources?: unknown[];
+  }
+) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('messages')
+    .insert({ conversation_id: conversationId, ...message })
+    .select('id, role, content, sources, handoff, safety, held_back_sources, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error saving message:', error);
+    throw error;
+  }
+
+  const { error: touchError } = await getSupabaseAdmin()
+    .from('conversations')
+    .update({ updated_at: data.created_at })
+    .eq('id', conversationId);
+
+  if (touchError) {
+    console.error('Error updating conversation:', touchError);
+    throw touchError;
+  }
+
+  return data;
+}
+
+/**
+ * Delete a message and every later one in its conversation; returns how many went
+ */
+export async function deleteMessageRowsFrom(conversationId: string, messageId: string) {
+  const { data: message, error: findError } = await getSupabaseAdmin()
+    .from('messages')
+    .select('created_at')
+    .eq('conversation_id', conversationId)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (findError) {
+    console.error('Error finding message:', findError);
+    throw findError;
+  }
+  if (!message) {
+    return 0;
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('messages')
+    .delete()
+    .eq('conversation_id', conversationId)
+    .gte('created_at', message.created_at)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting messages:', error);
+    throw error;
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Delete a conversation (messages cascade); returns false if it didn't exist
+ */
+export async function deleteConversationRow(ownerId: string, conversationId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('conversations')
+    .delete()
+    .eq('owner_id', ownerId)
+    .eq('id', conversationId)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting conversation:', error);
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Record a safety-critical question for review
+ */
+export async function insertSafetyIncidentRow(incident: {
+  owner_id: string;
+  conversation_id: string | null;
+  message: string;
+  categories: string[];
+  via: string;
+  matched: string[];
+}) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('safety_incidents')
+    .insert(incident)
+    .select('id, owner_id, conversation_id, message, categories, via, matched, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error saving safety incident:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Most recent safety incidents first
+ */
+export async function listSafetyIncidentRows(limit: number = 100) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('safety_incidents')
+    .select('id, owner_id, conversation_id, message, categories, via, matched, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error listing safety incidents:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+const FEEDBACK_COLUMNS =
+  'id, owner_id, conversation_id, message_id, rating, comment, question, answer, sources, decision, expected, created_at, updated_at';
+
+/**
+ * Save answer feedback; rating the same message again replaces the earlier rating
+ */
+export async function upsertFeedbackRow(feedback: {
+  owner_id: string;
+  conversation_id: string | null;
+  message_id: string;
+  rating: string;
+  comment: string | null;
+  question: string;
+  answer: string;
+  sources: unknown[];
+  decision: string;
+}) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('answer_feedback')
+    .upsert({ ...feedback, updated_at: new Date().toISOString() }, { onConflict: 'owner_id,message_id' })
+    .select(FEEDBACK_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving feedback:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Most recent feedback first, optionally only one rating
+ */
+export async function listFeedbackRows(rating?: string, limit: number = 100) {
+  let query = getSupabaseAdmin()
+    .from('answer_feedback')
+    .select(FEEDBACK_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (rating) {
+    query = query.eq('rating', rating);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error listing feedback:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Record the sources a reviewer says the answer should have used; null if the entry doesn't exist
+ */
+export async function updateFeedbackExpected(id: string, expected: unknown[] | null) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('answer_feedback')
+    .update({ expected, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(FEEDBACK_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating feedback:', error);
+    throw error;
+  }
+
+  return data;
+}
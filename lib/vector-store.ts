@@ -0,0 +1,463 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChunkMetadata, RetrievedChunk } from '@/types';
+import { BM25, tokenize } from './bm25';
+import {
+  searchSimilarDocuments,
+  hybridSearch,
+  keywordSearch,
+  searchByDocument,
+  insertDocumentChunks,
+  listDocuments,
+  getDocumentChunks,
+  getDocumentChunkMetadata,
+  getDocumentPageChunks,
+  replaceDocumentChunks,
+  deleteDocumentChunks,
+  clearAllDocuments,
+  getDocumentStats,
+} from './supabase';
+
+/**
+ * Metadata filter, e.g. { vehicle_model: 'Aurora', model_year: 2024 }. A key
+ * matches chunks with that value and chunks that don't set the key, so
+ * documents covering every model stay in scope.
+ */
+export type MetadataFilter = Record<string, string | number | boolean>;
+
+export interface SearchOptions {
+  matchCount?: number;
+  matchThreshold?: number;
+  filter?: MetadataFilter;
+}
+
+export interface HybridSearchOptions {
+  matchCount?: number;
+  matchThreshold?: number;
+  vectorWeight?: number;
+  keywordWeight?: number;
+  filter?: MetadataFilter;
+}
+
+export interface ChunkInput {
+  content: string;
+  embedding: number[];
+  metadata: ChunkMetadata;
+}
+
+/** A stored chunk without its embedding, for reading documents back */
+export interface ChunkText {
+  content: string;
+  metadata: ChunkMetadata;
+}
+
+export interface StoredDocument {
+  document: string;
+  documentHash?: string;
+  chunkCount: number;
+  // Manifest fields shared by all of the document's chunks
+  category?: string;
+  vehicleModel?: string;
+  modelYear?: number;
+  language?: string;
+}
+
+export interface DocumentStats {
+  totalChunks: number;
+  byDocument: Record<string, number>;
+}
+
+/**
+ * Storage + similarity search backend used by RAG and ingestion
+ */
+export interface VectorStore {
+  name: string;
+  search(queryEmbedding: number[], options?: SearchOptions): Promise<RetrievedChunk[]>;
+  hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    options?: HybridSearchOptions
+  ): Promise<RetrievedChunk[]>;
+  searchByDocument(
+    queryEmbedding: number[],
+    documentName: string,
+    options?: SearchOptions
+  ): Promise<RetrievedChunk[]>;
+  /**
+   * Lexical retrieval over the whole corpus, best first. `similarity` and
+   * `keyword_rank` both hold the lexical score (matchThreshold is ignored).
+   */
+  lexicalSearch(queryText: string, options?: SearchOptions): Promise<RetrievedChunk[]>;
+  insertChunks(chunks: ChunkInput[]): Promise<void>;
+  listDocuments(): Promise<StoredDocument[]>;
+  getDocumentChunks(documentName: string): Promise<ChunkInput[]>;
+  /** Metadata of every chunk of a document in ingestion order, without content or embeddings */
+  getDocumentChunkMetadata(documentName: string): Promise<ChunkMetadata[]>;
+  /** The chunks on one page of a document in ingestion order, without embeddings */
+  getDocumentPageChunks(documentName: string, page: number): Promise<ChunkText[]>;
+  /** Swap all chunks of a document at once; readers never see a partial document */
+  replaceDocument(documentName: string, chunks: ChunkInput[]): Promise<void>;
+  deleteDocument(documentName: string): Promise<void>;
+  clear(): Promise<void>;
+  getStats(): Promise<DocumentStats>;
+}
+
+/**
+ * Supabase pgvector backend (match_documents / hybrid_search / search_by_document RPCs)
+ */
+export class SupabaseVectorStore implements VectorStore {
+  name = 'supabase';
+
+  async search(queryEmbedding: number[], options: SearchOptions = {}) {
+    const data = await searchSimilarDocuments(
+      queryEmbedding,
+      options.matchCount ?? 5,
+      options.matchThreshold ?? 0.7,
+      options.filter ?? {}
+    );
+    return (data || []) as RetrievedChunk[];
+  }
+
+  async hybridSearch(queryEmbedding: number[], queryText: string, options: HybridSearchOptions = {}) {
+    const data = await hybridSearch(
+      queryEmbedding,
+      queryText,
+      options.matchCount ?? 8,
+      options.matchThreshold ?? 0.3,
+      options.vectorWeight ?? 0.7,
+      options.keywordWeight ?? 0.3,
+      options.filter ?? {}
+    );
+    return (data || []) as RetrievedChunk[];
+  }
+
+  async searchByDocument(queryEmbedding: number[], documentName: string, options: SearchOptions = {}) {
+    const data = await searchByDocument(
+      queryEmbedding,
+      documentName,
+      options.matchCount ?? 5,
+      options.matchThreshold ?? 0.5,
+      options.filter ?? {}
+    );
+    return (data || []) as RetrievedChunk[];
+  }
+
+  // Postgres full-text search (ts_rank_cd over the generated fts column)
+  async lexicalSearch(queryText: string, options: SearchOptions = {}) {
+    const data = await keywordSearch(queryText, options.matchCount ?? 8, options.filter ?? {});
+    return (data || []).map((row: any) => ({ ...row, similarity: row.keyword_rank })) as RetrievedChunk[];
+  }
+
+  async insertChunks(chunks: ChunkInput[]) {
+    await insertDocumentChunks(chunks);
+  }
+
+  async listDocuments() {
+    const rows = await listDocuments();
+    return rows.map((row) => ({
+      document: row.document,
+      documentHash: row.document_hash ?? undefined,
+      chunkCount: Number(row.chunk_count),
+      category: row.category ?? undefined,
+      vehicleModel: row.vehicle_model ?? undefined,
+      modelYear: row.model_year ?? undefined,
+      language: row.language ?? undefined,
+    }));
+  }
+
+  async getDocumentChunks(documentName: string) {
+    return (await getDocumentChunks(documentName)) as ChunkInput[];
+  }
+
+  async getDocumentChunkMetadata(documentName: string) {
+    return (await getDocumentChunkMetadata(documentName)) as ChunkMetadata[];
+  }
+
+  async getDocumentPageChunks(documentName: string, page: number) {
+    return (await getDocumentPageChunks(documentName, page)) as ChunkText[];
+  }
+
+  async replaceDocument(documentName: string, chunks: ChunkInput[]) {
+    await replaceDocumentChunks(documentName, chunks);
+  }
+
+  async deleteDocument(documentName: string) {
+    await deleteDocumentChunks(documentName);
+  }
+
+  async clear() {
+    await clearAllDocuments();
+  }
+
+  async getStats() {
+    return getDocumentStats();
+  }
+}
+
+interface StoredChunk extends ChunkInput {
+  id: number;
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesFilter(metadata: ChunkMetadata, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  const record = metadata as unknown as Record<string, unknown>;
+  return Object.entries(filter).every(([key, value]) => record[key] == null || record[key] === value);
+}
+
+/**
+ * Share of distinct query terms that appear as whole words in the content.
+ * Local stand-in for the ts_rank_cd score computed by hybrid_search.
+ */
+function keywordRank(queryText: string, content: string): number {
+  const terms = [...new Set(queryText.toLowerCase().match(/[a-z0-9]{3,}/g) || [])];
+  if (terms.length === 0) return 0;
+
+  const words = new Set(content.toLowerCase().match(/[a-z0-9]+/g) || []);
+  return terms.filter((term) => words.has(term)).length / terms.length;
+}
+
+/**
+ * In-process backend with brute-force cosine search.
+ * Fine for the few thousand chunks the VoltDrive manuals produce.
+ */
+export class MemoryVectorStore implements VectorStore {
+  name = 'memory';
+  protected rows: StoredChunk[] = [];
+  protected nextId = 1;
+  // BM25 index over `rows`, rebuilt on the first lexical search after they change
+  private lexicalIndex: { rows: StoredChunk[]; size: number; bm25: BM25 } | null = null;
+
+  protected async load(): Promise<void> {}
+  protected async persist(): Promise<void> {}
+
+  async search(queryEmbedding: number[], options: SearchOptions = {}) {
+    await this.load();
+    const { matchCount = 5, matchThreshold = 0.7, filter } = options;
+
+    return this.rows
+      .filter((row) => matchesFilter(row.metadata, filter))
+      .map((row) => ({
+        id: row.id,
+        content: row.content,
+        metadata: row.metadata,
+        similarity: cosineSimilarity(queryEmbedding, row.embedding),
+      }))
+      .filter((row) => row.similarity > matchThreshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, matchCount);
+  }
+
+  async hybridSearch(queryEmbedding: number[], queryText: string, options: HybridSearchOptions = {}) {
+    await this.load();
+    const { matchCount = 8, matchThreshold = 0.3, vectorWeight = 0.7, keywordWeight = 0.3, filter } = options;
+
+    return this.rows
+      .filter((row) => matchesFilter(row.metadata, filter))
+      .map((row) => {
+        const vectorSimilarity = cosineSimilarity(queryEmbedding, row.embedding);
+        const rank = keywordRank(queryText, row.content);
+        return {
+          id: row.id,
+          content: row.content,
+          metadata: row.metadata,
+          similarity: vectorWeight * vectorSimilarity + keywordWeight * rank,
+          vector_similarity: vectorSimilarity,
+          keyword_rank: rank,
+        };
+      })
+      .filter((row) => row.vector_similarity > matchThreshold || row.keyword_rank > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, matchCount);
+  }
+
+  async searchByDocument(queryEmbedding: number[], documentName: string, options: SearchOptions = {}) {
+    return this.search(queryEmbedding, {
+      matchThreshold: 0.5,
+      ...options,
+      filter: { ...options.filter, document: documentName },
+    });
+  }
+
+  async lexicalSearch(queryText: string, options: SearchOptions = {}) {
+    await this.load();
+    const { matchCount = 8, filter } = options;
+    if (!this.lexicalIndex || this.lexicalIndex.rows !== this.rows || this.lexicalIndex.size !== this.rows.length) {
+      this.lexicalIndex = {
+        rows: this.rows,
+        size: this.rows.length,
+        bm25: new BM25(this.rows.map((row) => tokenize(row.content))),
+      };
+    }
+
+    const scores = this.lexicalIndex.bm25.scoreAll(tokenize(queryText));
+    return this.rows
+      .map((row, i) => ({
+        id: row.id,
+        content: row.content,
+        metadata: row.metadata,
+        similarity: scores[i],
+        keyword_rank: scores[i],
+      }))
+      .filter((row) => row.similarity > 0 && matchesFilter(row.metadata, filter))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, matchCount);
+  }
+
+  async insertChunks(chunks: ChunkInput[]) {
+    await this.load();
+    for (const chunk of chunks) {
+      this.rows.push({ ...chunk, id: this.nextId++ });
+    }
+    await this.persist();
+  }
+
+  async listDocuments() {
+    await this.load();
+    const documents = new Map<string, StoredDocument>();
+    for (const row of this.rows) {
+      const entry = documents.get(row.metadata.document) || {
+        document: row.metadata.document,
+        documentHash: row.metadata.document_hash,
+        chunkCount: 0,
+        category: row.metadata.category,
+        vehicleModel: row.metadata.vehicle_model,
+        modelYear: row.metadata.model_year,
+        language: row.metadata.language,
+      };
+      entry.chunkCount++;
+      documents.set(row.metadata.document, entry);
+    }
+    return [...documents.values()];
+  }
+
+  async getDocumentChunks(documentName: string) {
+    await this.load();
+    return this.rows
+      .filter((row) => row.metadata.document === documentName)
+      .map(({ content, embedding, metadata }) => ({ content, embedding, metadata }));
+  }
+
+  async getDocumentChunkMetadata(documentName: string) {
+    await this.load();
+    return this.rows.filter((row) => row.metadata.document === documentName).map((row) => row.metadata);
+  }
+
+  async getDocumentPageChunks(documentName: string, page: number) {
+    await this.load();
+    return this.rows
+      .filter((row) => row.metadata.document === documentName && row.metadata.page === page)
+      .map(({ content, metadata }) => ({ content, metadata }));
+  }
+
+  async replaceDocument(documentName: string, chunks: ChunkInput[]) {
+    await this.load();
+    // Build the new row set first, then swap it in with a single persist
+    const kept = this.rows.filter((row) => row.metadata.document !== documentName);
+    const added = chunks.map((chunk) => ({ ...chunk, id: this.nextId++ }));
+    this.rows = [...kept, ...added];
+    await this.persist();
+  }
+
+  async deleteDocument(documentName: string) {
+    await this.load();
+    this.rows = this.rows.filter((row) => row.metadata.document !== documentName);
+    await this.persist();
+  }
+
+  async clear() {
+    await this.load();
+    this.rows = [];
+    await this.persist();
+  }
+
+  async getStats() {
+    await this.load();
+    const byDocument = this.rows.reduce((acc: Record<string, number>, row) => {
+      const docName = row.metadata?.document || 'Unknown';
+      acc[docName] = (acc[docName] || 0) + 1;
+      return acc;
+    }, {});
+
+    return { totalChunks: this.rows.length, byDocument };
+  }
+}
+
+/**
+ * Memory backend persisted to a JSON file so ingestion and the Next.js
+ * server (separate processes) share one index without a database
+ */
+export class FileVectorStore extends MemoryVectorStore {
+  name = 'file';
+  private loadedMtime = -1;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  // Re-read whenever the file changed on disk (e.g. after `npm run ingest`)
+  protected async load() {
+    try {
+      const { mtimeMs } = await fs.stat(this.filePath);
+      if (mtimeMs === this.loadedMtime) return;
+
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.rows = raw.rows || [];
+      this.nextId = raw.nextId || this.rows.length + 1;
+      this.loadedMtime = mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  protected async persist() {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ nextId: this.nextId, rows: this.rows }));
+    await fs.rename(tmpPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
+
+let store: VectorStore | null = null;
+
+/**
+ * Resolve the configured store (VECTOR_STORE=supabase|memory|file)
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    const backend = process.env.VECTOR_STORE || 'supabase';
+    switch (backend) {
+      case 'supabase':
+        store = new SupabaseVectorStore();
+        break;
+      case 'memory':
+        store = new MemoryVectorStore();
+        break;
+      case 'file':
+        store = new FileVectorStore(
+          process.env.VECTOR_STORE_PATH || path.join(process.cwd(), '.data', 'vector-store.json')
+        );
+        break;
+      default:
+        throw new Error(`Unknown VECTOR_STORE: ${backend}`);
+    }
+    console.log(`🗄️  Vector store: ${store.name}`);
+  }
+  return store;
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CLIENT_ID_COOKIE } from '@/lib/client-id';
+
+/**
+ * Internal pages (/admin, /api/admin) need HTTP basic auth with ADMIN_TOKEN as
+ * the password (any user name). Without ADMIN_TOKEN only `next dev` serves them.
+ * Returns the response to send instead, or null to let the request through.
+ */
+function checkAdmin(req: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === 'development' ? null : new NextResponse('Not found', { status: 404 });
+  }
+
+  const [scheme, encoded] = (req.headers.get('authorization') || '').split(' ');
+  if (scheme === 'Basic' && encoded) {
+    try {
+      const password = atob(encoded).split(':').slice(1).join(':');
+      if (password === token) return null;
+    } catch {
+      // Malformed header: ask again
+    }
+  }
+
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="VoltDrive admin"' },
+  });
+}
+
+/**
+ * Make sure every browser carries an anonymous client id. A new id is also
+ * written into the forwarded request so the route handling this very request
+ * can already use it.
+ */
+export function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  if (pathname.startsWith('/admin') || pathname.startsWith('/api/admin')) {
+    const denied = checkAdmin(req);
+    if (denied) return denied;
+  }
+
+  if (req.cookies.get(CLIENT_ID_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const clientId = crypto.randomUUID();
+  req.cookies.set(CLIENT_ID_COOKIE, clientId);
+
+  const response = NextResponse.next({ request: { headers: req.headers } });
+  response.cookies.set(CLIENT_ID_COOKIE, clientId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+  });
+  return response;
+}
+
+export const config = {
+  matcher: ['/', '/api/:path*', '/admin/:path*'],
+};
@@ -1,12 +1,12 @@
 import dotenv from 'dotenv';
 dotenv.config({ path: '.env' });
 
-import { supabase } from '../lib/supabase';
+import { getSupabase } from '../lib/supabase';
 
 async function debugChunks() {
   console.log('🔍 Checking database chunks...\n');
   
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from('document_chunks')
     .select('id, content, metadata')
     .limit(3);
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import YAML from 'yaml';
+
+// Load environment variables
+dotenv.config({ path: '.env' });
+
+import { parseArgs } from 'util';
+import { generateChatCompletionText, getLLMProvider, setLLMProvider } from '../lib/azure-openai';
+import { AnswerCheck, checkAnswer } from '../lib/answer-checks';
+import { prepareChat } from '../lib/chat-pipeline';
+import { HybridMode } from '../lib/rag';
+import { RecordedProvider, RecordingMode } from '../lib/recorded-provider';
+import { ExpectedSource } from '../lib/retrieval-metrics';
+import { AnswerDecision } from '../types';
+
+interface AnswerQuestion {
+  id: string;
+  question: string;
+  answerable?: boolean;
+  expected?: ExpectedSource[];
+}
+
+type CompletionMode = 'live' | RecordingMode;
+
+interface AnswerEvalOptions {
+  dataset: string;
+  completions: CompletionMode;
+  recordings: string;
+  minSupport: number;
+  minFaithfulness: number;
+  hybridMode?: HybridMode;
+  out?: string;
+  strict: boolean;
+}
+
+type Flag =
+  | 'error'
+  | 'no-citation'
+  | 'invalid-citation'
+  | 'unsupported-citation'
+  | 'wrong-source'
+  | 'low-faithfulness'
+  | 'missed-not-covered'
+  | 'false-not-covered';
+
+interface AnswerResult extends AnswerCheck {
+  id: string;
+  question: string;
+  answerable: boolean;
+  answer: string;
+  sources: { number: number; document: string; page: number }[];
+  /** Confidence gate decision the answer was generated under */
+  decision?: AnswerDecision;
+  flags: Flag[];
+  error?: string;
+}
+
+function loadQuestions(datasetPath: string): AnswerQuestion[] {
+  const raw = fs.readFileSync(datasetPath, 'utf8');
+  const data = datasetPath.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw);
+  const questions: AnswerQuestion[] = data?.questions || [];
+
+  const ids = new Set<string>();
+  for (const [i, item] of questions.entries()) {
+    if (!item.id || !item.question) {
+      throw new Error(`${datasetPath}: question #${i + 1} needs an id and a question`);
+    }
+    if (ids.has(item.id)) {
+      throw new Error(`${datasetPath}: duplicate question id "${item.id}"`);
+    }
+    ids.add(item.id);
+  }
+  return questions;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Turn the raw checks into pass/fail flags for one question
+ */
+function flagAnswer(
+  item: AnswerQuestion,
+  check: AnswerCheck,
+  sources: AnswerResult['sources'],
+  minFaithfulness: number
+): Flag[] {
+  const flags: Flag[] = [];
+  const answerable = item.answerable !== false;
+
+  if (!answerable) {
+    if (!check.saysNotCovered) flags.push('missed-not-covered');
+    return flags;
+  }
+
+  if (check.saysNotCovered && check.citedSources.length === 0) {
+    flags.push('false-not-covered');
+    return flags;
+  }
+  if (check.citations.length === 0 && sources.length > 0) flags.push('no-citation');
+  if (check.invalidCitations.length > 0) flags.push('invalid-citation');
+  if (check.unsupportedCitations.length > 0) flags.push('unsupported-citation');
+  if (check.faithfulness < minFaithfulness) flags.push('low-faithfulness');
+
+  if (item.expected && check.citedSources.length > 0) {
+    const cited = check.citedSources.map((n) => sources[n - 1]);
+    const citesExpected = item.expected.some((e) =>
+      cited.some((s) => s.document === e.document && (e.page === undefined || e.page === s.page))
+    );
+    if (!citesExpected) flags.push('wrong-source');
+  }
+
+  return flags;
+}
+
+async function runAnswerEval(options: AnswerEvalOptions) {
+  const questions = loadQuestions(options.dataset);
+
+  if (options.completions !== 'live') {
+    setLLMProvider(new RecordedProvider(getLLMProvider(), options.recordings, options.completions));
+  }
+
+  console.log(`🧪 Evaluating ${questions.length} answers from ${path.relative(process.cwd(), options.dataset)}`);
+  console.log(`   completions: ${options.completions}, min support: ${options.minSupport}, min faithfulness: ${options.minFaithfulness}\n`);
+
+  const results: AnswerResult[] = [];
+  for (const item of questions) {
+    const answerable = item.answerable !== false;
+    let answer = '';
+    let sources: AnswerResult['sources'] = [];
+    let decision: AnswerDecision | undefined;
+    let check: AnswerCheck = checkAnswer('', []);
+    let flags: Flag[];
+    let error: string | undefined;
+
+    try {
+      const prepared = await prepareChat(item.question, [], { hybridMode: options.hybridMode, quiet: true });
+      answer = await generateChatCompletionText(prepared.messages);
+      decision = prepared.confidence.decision;
+      sources = prepared.sources.map((s, i) => ({ number: i + 1, document: s.document, page: s.page }));
+      check = checkAnswer(answer, prepared.sources, { minSupport: options.minSupport, question: item.question });
+      flags = flagAnswer(item, check, sources, options.minFaithfulness);
+    } catch (e: any) {
+      error = String(e?.message || e);
+      flags = ['error'];
+    }
+
+    console.log(`${flags.length === 0 ? '✅' : '❌'} ${item.id.padEnd(28)} ${flags.join(', ') || 'ok'}`);
+
+    results.push({
+      id: item.id,
+      question: item.question,
+      answerable,
+      answer,
+      sources,
+      decision,
+      ...check,
+      citations: check.citations.map((c) => ({ ...c, support: round(c.support) })),
+      unsupportedCitations: check.unsupportedCitations.map((c) => ({ ...c, support: round(c.support) })),
+      faithfulness: round(check.faithfulness),
+      flags,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  const flagCounts: Record<string, number> = {};
+  for (const flag of results.flatMap((r) => r.flags)) {
+    flagCounts[flag] = (flagCounts[flag] || 0) + 1;
+  }
+  const answered = results.filter((r) => r.answerable && !r.error);
+  const citations = answered.flatMap((r) => r.citations);
+  const supportedCitations = citations.filter((c) => c.source !== null && c.support >= options.minSupport);
+
+  const summary = {
+    questions: results.length,
+    passed: results.filter((r) => r.flags.length === 0).length,
+    meanFaithfulness: round(answered.reduce((sum, r) => sum + r.faithfulness, 0) / (answered.length || 1)),
+    citationPrecision: round(citations.length > 0 ? supportedCitations.length / citations.length : 0),
+    flags: flagCounts,
+  };
+
+  console.log('\n📊 Answer quality:');
+  console.log(`   Passed: ${summary.passed}/${summary.questions}`);
+  console.log(`   Mean faithfulness: ${summary.meanFaithfulness.toFixed(3)}`);
+  console.log(`   Citation precision: ${summary.citationPrecision.toFixed(3)} (${supportedCitations.length}/${citations.length} citations supported)`);
+  for (const [flag, count] of Object.entries(flagCounts).sort()) {
+    console.log(`   - ${flag}: ${count}`);
+  }
+
+  if (options.out) {
+    const report = {
+      config: {
+        dataset: path.relative(process.cwd(), options.dataset),
+        completions: options.completions,
+        minSupport: options.minSupport,
+        minFaithfulness: options.minFaithfulness,
+        llmProvider: getLLMProvider().name,
+        vectorStore: process.env.VECTOR_STORE || 'supabase',
+      },
+      summary,
+      questions: results.sort((a, b) => a.id.localeCompare(b.id)),
+    };
+    fs.mkdirSync(path.dirname(options.out), { recursive: true });
+    fs.writeFileSync(options.out, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\n📝 Report written to ${options.out}`);
+  }
+
+  if (options.strict && summary.passed < summary.questions) {
+    process.exitCode = 1;
+  }
+}
+
+const USAGE = `Usage: npm run eval:answers -- [options]
+
+Runs each question through the chat pipeline (query rewrite, retrieval, prompt,
+completion) and checks the answer's citations and grounding.
+
+Options:
+  --dataset <path>        Questions, YAML or JSON (default: eval/answer-golden.yaml)
+  --completions <mode>    live (call the model), record (call it and save completions)
+                          or replay (use saved completions, no model calls) (default: live)
+  --recordings <path>     Recorded completions file (default: eval/recordings/answers.json)
+  --min-support <n>       Content-word overlap a claim needs with its source (default: 0.5)
+  --min-faithfulness <n>  Share of supported claims below which an answer is flagged (default: 0.8)
+  --hybrid-mode <mode>    client, database or rrf (default: RAG_HYBRID_MODE or client)
+  --out <path>            Write the per-question report as JSON
+  --strict                Exit non-zero when any question is flagged (CI)
+  --help                  Show this message`;
+
+const { values: args } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'eval/answer-golden.yaml' },
+    completions: { type: 'string', default: 'live' },
+    recordings: { type: 'string', default: 'eval/recordings/answers.json' },
+    'min-support': { type: 'string', default: '0.5' },
+    'min-faithfulness': { type: 'string', default: '0.8' },
+    'hybrid-mode': { type: 'string' },
+    out: { type: 'string' },
+    strict: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (args.help) {
+  console.log(USAGE);
+} else {
+  const completions = args.completions as CompletionMode;
+  if (!['live', 'record', 'replay'].includes(completions)) {
+    console.error(`Unknown --completions: ${completions}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  runAnswerEval({
+    dataset: path.resolve(args.dataset as string),
+    completions,
+    recordings: path.resolve(args.recordings as string),
+    minSupport: parseFloat(args['min-support'] as string),
+    minFaithfulness: parseFloat(args['min-faithfulness'] as string),
+    hybridMode: args['hybrid-mode'] as HybridMode | undefined,
+    out: args.out ? path.resolve(args.out) : undefined,
+    strict: Boolean(args.strict),
+  }).catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
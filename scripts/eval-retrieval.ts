@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import YAML from 'yaml';
+
+// Load environment variables
+dotenv.config({ path: '.env' });
+
+import { parseArgs } from 'util';
+import { HybridMode, IntentRouterMode, performRAG } from '../lib/rag';
+import { MultiQueryMode } from '../lib/query-expansion';
+import { ConfidenceThresholds, assessConfidence, getConfidenceThresholds } from '../lib/confidence-gate';
+import { RERANKER_NAMES, RerankerName } from '../lib/rerankers';
+import {
+  ExpectedSource,
+  MetricSummary,
+  RankingMetrics,
+  evaluateRanking,
+  summarizeMetrics,
+} from '../lib/retrieval-metrics';
+import { AnswerDecision } from '../types';
+
+interface GoldenQuestion {
+  id: string;
+  question: string;
+  tags?: string[];
+  expected: ExpectedSource[];
+}
+
+interface EvalOptions {
+  dataset: string;
+  ks: number[];
+  topK: number;
+  threshold: number;
+  hybridMode?: HybridMode;
+  intentRouter?: IntentRouterMode;
+  reranker?: RerankerName;
+  multiQuery?: MultiQueryMode;
+  tags: string[];
+  out?: string;
+  compare?: string;
+}
+
+interface QuestionResult extends RankingMetrics {
+  id: string;
+  question: string;
+  tags: string[];
+  expected: ExpectedSource[];
+  retrieved: { document: string; page: number; similarity?: number; rerankScore?: number }[];
+  intents: string[];
+  /** Best reranked score and what the confidence gate would decide for it */
+  confidence: number;
+  decision: AnswerDecision;
+}
+
+/**
+ * How often the top source is relevant for each gate decision; a
+ * well-calibrated gate answers when it is and declines when it isn't
+ */
+interface GateSummary {
+  thresholds: ConfidenceThresholds;
+  decisions: Record<AnswerDecision, { count: number; relevantAt1: number }>;
+}
+
+interface EvalReport {
+  config: {
+    dataset: string;
+    ks: number[];
+    topK: number;
+    threshold: number;
+    hybridMode: string;
+    intentRouter: string;
+    reranker: string;
+    multiQuery: string;
+    llmProvider: string;
+    vectorStore: string;
+  };
+  summary: MetricSummary;
+  byTag: Record<string, MetricSummary>;
+  gate: GateSummary;
+  questions: QuestionResult[];
+}
+
+/**
+ * Load and validate the golden set (YAML, JSON, or JSONL with one question
+ * per line as exported from /admin/feedback)
+ */
+function loadGoldenSet(datasetPath: string): GoldenQuestion[] {
+  const raw = fs.readFileSync(datasetPath, 'utf8');
+  const questions: GoldenQuestion[] = datasetPath.endsWith('.jsonl')
+    ? raw.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line))
+    : (datasetPath.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw))?.questions || [];
+  const seen = new Set<string>();
+
+  for (const [i, item] of questions.entries()) {
+    if (!item.id || !item.question) {
+      throw new Error(`${datasetPath}: question #${i + 1} needs an id and a question`);
+    }
+    if (seen.has(item.id)) {
+      throw new Error(`${datasetPath}: duplicate question id "${item.id}"`);
+    }
+    if (!Array.isArray(item.expected) || item.expected.length === 0 || item.expected.some((e) => !e.document)) {
+      throw new Error(`${datasetPath}: question "${item.id}" needs at least one expected { document, page? }`);
+    }
+    seen.add(item.id);
+  }
+
+  return questions;
+}
+
+// Fixed precision keeps reports diffable between runs
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function roundSummary(summary: MetricSummary): MetricSummary {
+  const roundAll = (values: Record<number, number>) =>
+    Object.fromEntries(Object.entries(values).map(([k, v]) => [k, round(v)]));
+  return { count: summary.count, recall: roundAll(summary.recall), ndcg: roundAll(summary.ndcg), mrr: round(summary.mrr) };
+}
+
+function formatSummary(label: string, summary: MetricSummary, ks: number[]): string {
+  const recall = ks.map((k) => `R@${k} ${summary.recall[k].toFixed(3)}`).join('  ');
+  const ndcg = ks.map((k) => `nDCG@${k} ${summary.ndcg[k].toFixed(3)}`).join('  ');
+  return `${label.padEnd(18)} n=${String(summary.count).padEnd(4)} ${recall}  MRR ${summary.mrr.toFixed(3)}  ${ndcg}`;
+}
+
+function formatDelta(value: number, baseline: number | undefined): string {
+  if (baseline === undefined) return '';
+  const delta = value - baseline;
+  if (Math.abs(delta) < 0.0005) return ' (=)';
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+/**
+ * Print metric changes against a previous report, plus questions whose
+ * first relevant rank moved
+ */
+function printComparison(report: EvalReport, baseline: EvalReport) {
+  console.log(`\n🔀 Compared with ${baseline.config.dataset} run (hybrid: ${baseline.config.hybridMode}, router: ${baseline.config.intentRouter ?? 'off'}, reranker: ${baseline.config.reranker ?? 'heuristic'}, multi-query: ${baseline.config.multiQuery ?? 'off'}, topK: ${baseline.config.topK}):`);
+  const line = (label: string, value: number, before: number | undefined) =>
+    console.log(`   ${label.padEnd(10)} ${value.toFixed(3)}${formatDelta(value, before)}`);
+
+  for (const k of report.config.ks) {
+    line(`Recall@${k}`, report.summary.recall[k], baseline.summary.recall[k]);
+  }
+  line('MRR', report.summary.mrr, baseline.summary.mrr);
+  for (const k of report.config.ks) {
+    line(`nDCG@${k}`, report.summary.ndcg[k], baseline.summary.ndcg[k]);
+  }
+
+  const previous = new Map(baseline.questions.map((q) => [q.id, q]));
+  const moved = report.questions.filter((q) => previous.has(q.id) && previous.get(q.id)!.firstRelevantRank !== q.firstRelevantRank);
+  if (moved.length > 0) {
+    console.log('\n   First relevant rank changed:');
+    for (const q of moved) {
+      const before = previous.get(q.id)!.firstRelevantRank ?? '-';
+      console.log(`   - ${q.id}: ${before} → ${q.firstRelevantRank ?? '-'}`);
+    }
+  }
+}
+
+async function runEval(options: EvalOptions) {
+  let questions = loadGoldenSet(options.dataset);
+  if (options.tags.length > 0) {
+    questions = questions.filter((q) => q.tags?.some((tag) => options.tags.includes(tag)));
+  }
+  if (questions.length === 0) {
+    console.log('❌ No questions to evaluate');
+    process.exitCode = 1;
+    return;
+  }
+
+  const hybridMode = options.hybridMode || (process.env.RAG_HYBRID_MODE as HybridMode) || 'client';
+  const intentRouter = options.intentRouter || (process.env.RAG_INTENT_ROUTER as IntentRouterMode) || 'rules';
+  const reranker =
+    options.reranker || (process.env.RAG_RERANKER as RerankerName) || (hybridMode === 'client' ? 'heuristic' : 'none');
+  const multiQuery = options.multiQuery || (process.env.RAG_MULTI_QUERY as MultiQueryMode) || 'off';
+  console.log(`🧪 Evaluating ${questions.length} questions from ${path.relative(process.cwd(), options.dataset)}`);
+  console.log(`   k: ${options.ks.join(', ')}, topK: ${options.topK}, threshold: ${options.threshold}, hybrid: ${hybridMode}, router: ${intentRouter}, reranker: ${reranker}, multi-query: ${multiQuery}\n`);
+
+  const thresholds = getConfidenceThresholds(reranker, hybridMode);
+  const results: QuestionResult[] = [];
+  for (const item of questions) {
+    const { sources, route } = await performRAG(item.question, options.topK, options.threshold, {
+      hybridMode,
+      intentRouter,
+      reranker,
+      multiQuery,
+      // Score every question; the gate decision is recorded instead of applied
+      confidenceGate: false,
+      quiet: true,
+    });
+    const retrieved = sources.map((s) => ({
+      document: s.document,
+      page: s.page,
+      ...(s.similarity !== undefined ? { similarity: round(s.similarity) } : {}),
+      ...(s.rerankScore !== undefined ? { rerankScore: round(s.rerankScore) } : {}),
+    }));
+    const metrics = evaluateRanking(retrieved, item.expected, options.ks);
+    const confidence = assessConfidence(sources.map((s) => s.rerankScore ?? s.similarity ?? 0), thresholds);
+
+    const rank = metrics.firstRelevantRank;
+    console.log(`${rank === 1 ? '✅' : rank ? '⚠️ ' : '❌'} ${item.id.padEnd(28)} first relevant: ${rank ?? '-'}`);
+
+    results.push({
+      id: item.id,
+      question: item.question,
+      tags: item.tags || [],
+      expected: item.expected,
+      retrieved,
+      intents: route.intents,
+      confidence: round(confidence.score),
+      decision: confidence.decision,
+      ...metrics,
+      recall: Object.fromEntries(Object.entries(metrics.recall).map(([k, v]) => [k, round(v)])),
+      ndcg: Object.fromEntries(Object.entries(metrics.ndcg).map(([k, v]) => [k, round(v)])),
+      reciprocalRank: round(metrics.reciprocalRank),
+    });
+  }
+
+  const tags = [...new Set(results.flatMap((r) => r.tags))].sort();
+  const byTag = Object.fromEntries(
+    tags.map((tag) => [tag, roundSummary(summarizeMetrics(results.filter((r) => r.tags.includes(tag)), options.ks))])
+  );
+
+  const decisions = (['answer', 'caveat', 'refuse'] as AnswerDecision[]).map((decision) => {
+    const matching = results.filter((r) => r.decision === decision);
+    const relevantAt1 = matching.filter((r) => r.firstRelevantRank === 1).length / (matching.length || 1);
+    return [decision, { count: matching.length, relevantAt1: round(relevantAt1) }];
+  });
+
+  const report: EvalReport = {
+    config: {
+      dataset: path.relative(process.cwd(), options.dataset),
+      ks: options.ks,
+      topK: options.topK,
+      threshold: options.threshold,
+      hybridMode,
+      intentRouter,
+      reranker,
+      multiQuery,
+      llmProvider: process.env.LLM_PROVIDER || 'azure',
+      vectorStore: process.env.VECTOR_STORE || 'supabase',
+    },
+    summary: roundSummary(summarizeMetrics(results, options.ks)),
+    byTag,
+    gate: { thresholds, decisions: Object.fromEntries(decisions) },
+    questions: results.sort((a, b) => a.id.localeCompare(b.id)),
+  };
+
+  console.log('\n📊 Retrieval metrics:');
+  console.log(`   ${formatSummary('all', report.summary, options.ks)}`);
+  for (const tag of tags) {
+    console.log(`   ${formatSummary(tag, byTag[tag], options.ks)}`);
+  }
+
+  console.log(`\n🎚️  Confidence gate (answer ≥ ${thresholds.answer}, caveat ≥ ${thresholds.caveat}):`);
+  for (const [decision, { count, relevantAt1 }] of Object.entries(report.gate.decisions)) {
+    console.log(`   ${decision.padEnd(8)} n=${String(count).padEnd(4)} top source relevant ${relevantAt1.toFixed(3)}`);
+  }
+
+  if (options.compare) {
+    printComparison(report, JSON.parse(fs.readFileSync(options.compare, 'utf8')));
+  }
+
+  if (options.out) {
+    fs.mkdirSync(path.dirname(options.out), { recursive: true });
+    fs.writeFileSync(options.out, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\n📝 Report written to ${options.out}`);
+  }
+}
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Options:
+  --dataset <path>      Golden question set, YAML, JSON or JSONL (default: eval/retrieval-golden.yaml)
+  --k <list>            Cutoffs for recall@k and nDCG@k (default: 1,3,5)
+  --top-k <n>           Candidates retrieved before re-ranking (default: 8)
+  --threshold <n>       Similarity threshold passed to performRAG (default: 0.2)
+  --hybrid-mode <mode>  client, database or rrf (default: RAG_HYBRID_MODE or client)
+  --router <mode>       Intent routing: rules, llm or off (default: RAG_INTENT_ROUTER or rules)
+  --reranker <name>     heuristic, bm25, llm or none (default: RAG_RERANKER, else by hybrid mode)
+  --multi-query <mode>  llm or off: also retrieve for model-written rephrasings (default: RAG_MULTI_QUERY or off)
+  --tag <tag>           Only evaluate questions with this tag (repeatable)
+  --out <path>          Write the full report as JSON
+  --compare <path>      Show metric deltas against a previous --out report
+  --help                Show this message`;
+
+const { values: args } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'eval/retrieval-golden.yaml' },
+    k: { type: 'string', default: '1,3,5' },
+    'top-k': { type: 'string', default: '8' },
+    threshold: { type: 'string', default: '0.2' },
+    'hybrid-mode': { type: 'string' },
+    router: { type: 'string' },
+    reranker: { type: 'string' },
+    'multi-query': { type: 'string' },
+    tag: { type: 'string', multiple: true, default: [] },
+    out: { type: 'string' },
+    compare: { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (args.help) {
+  console.log(USAGE);
+} else {
+  const hybridMode = args['hybrid-mode'] as HybridMode | undefined;
+  if (hybridMode && !['client', 'database', 'rrf'].includes(hybridMode)) {
+    console.error(`Unknown --hybrid-mode: ${hybridMode}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const intentRouter = args.router as IntentRouterMode | undefined;
+  if (intentRouter && !['rules', 'llm', 'off'].includes(intentRouter)) {
+    console.error(`Unknown --router: ${intentRouter}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const reranker = args.reranker as RerankerName | undefined;
+  if (reranker && !RERANKER_NAMES.includes(reranker)) {
+    console.error(`Unknown --reranker: ${reranker}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const multiQuery = args['multi-query'] as MultiQueryMode | undefined;
+  if (multiQuery && !['llm', 'off'].includes(multiQuery)) {
+    console.error(`Unknown --multi-query: ${multiQuery}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const ks = (args.k as string).split(',').map((k) => parseInt(k, 10)).filter((k) => k > 0);
+  // performRAG returns at most 5 sources, so deeper cutoffs can't improve
+  if (ks.some((k) => k > 5)) {
+    console.warn('⚠️  performRAG returns at most 5 sources; cutoffs above 5 equal @5');
+  }
+
+  runEval({
+    dataset: path.resolve(args.dataset as string),
+    ks,
+    topK: parseInt(args['top-k'] as string, 10),
+    threshold: parseFloat(args.threshold as string),
+    hybridMode,
+    intentRouter,
+    reranker,
+    multiQuery,
+    tags: args.tag as string[],
+    out: args.out ? path.resolve(args.out) : undefined,
+    compare: args.compare ? path.resolve(args.compare) : undefined,
+  }).catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
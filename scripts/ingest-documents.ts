@@ -1,348 +1,360 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import pdf from 'pdf-parse';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config({ path: '.env' });
 
-import { generateEmbedding } from '../lib/azure-openai';
-import { insertDocumentChunks, clearAllDocuments } from '../lib/supabase';
-
-interface DocumentChunk {
-  content: string;
-  embedding: number[];
-  metadata: {
-    document: string;
-    page: number;
-    section?: string;
-    chunk_index: number;
-  };
+import { generateEmbeddings } from '../lib/azure-openai';
+import { parseArgs } from 'util';
+import { ChunkInput, StoredDocument, getVectorStore } from '../lib/vector-store';
+import { loadDocument } from '../lib/document-loaders';
+import { chunkText, chunkerOptionsFor } from '../lib/chunker';
+import { DocumentSpec, filterDocuments, resolveDocuments } from '../lib/document-manifest';
+
+// Set by --verbose; per-page/per-chunk detail is only logged when enabled
+let verbose = false;
+
+function logVerbose(...args: unknown[]) {
+  if (verbose) console.log(...args);
 }
 
 /**
- * Enhanced chunking with semantic boundaries and context preservation
- * Now uses larger chunks with better overlap for improved retrieval
+ * Enrich chunk with document context to improve embedding quality. The
+ * chunker already starts each chunk with its section heading.
  */
-function chunkTextSemantic(
-  text: string, 
-  chunkSize: number = 500,  // Reduced from 1000
-  overlap: number = 100      // Reduced from 200
-): string[] {
-  const chunks: string[] = [];
-  
-  // Clean up text - preserve paragraph structure
-  const cleanText = text
-    .replace(/\s+/g, ' ')
-    .replace(/\. /g, '.\n')
-    .trim();
-  
-  if (cleanText.length === 0) return [];
-  
-  // If text is shorter than chunk size, return as single chunk
-  if (cleanText.length <= chunkSize) {
-    return [cleanText];
-  }
-  
-  // Split into sentences first for better boundaries
-  const sentences = cleanText.split(/(?<=[.!?])\s+/);
-  
-  let currentChunk = '';
-  let currentLength = 0;
-  
-  for (let i = 0; i < sentences.length; i++) {
-    const sentence = sentences[i];
-    const sentenceLength = sentence.length;
-    
-    // If adding this sentence exceeds chunk size and we have content
-    if (currentLength + sentenceLength > chunkSize && currentChunk.length > 0) {
-      // Save current chunk
-      chunks.push(currentChunk.trim());
-      
-      // Start new chunk with overlap (last few sentences)
-      const overlapSentences = currentChunk
-        .split(/(?<=[.!?])\s+/)
-        .slice(-3) // Keep last 3 sentences for context
-        .join(' ');
-      
-      currentChunk = overlapSentences + ' ' + sentence;
-      currentLength = currentChunk.length;
-    } else {
-      // Add sentence to current chunk
-      currentChunk += (currentChunk ? ' ' : '') + sentence;
-      currentLength += sentenceLength;
-    }
-  }
-  
-  // Add final chunk if it has content
-  if (currentChunk.trim().length > 100) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  console.log(`   Created ${chunks.length} semantic chunks`);
-  return chunks;
+function enrichChunkWithContext(chunk: string, documentName: string, page: number): string {
+  return `[Source: ${documentName}, Page ${page}]\n\n${chunk}`;
+}
+
+// Bump when chunking or enrichment logic changes so every document is re-processed
+// (chunker preset changes are picked up through the document hash)
+const INGEST_VERSION = 'structured-tokens-v2';
+
+interface IngestOptions {
+  dir: string;
+  manifest?: string;
+  only: string[];
+  dryRun: boolean;
+  force: boolean;
+  report?: string;
+}
+
+interface FailedChunk {
+  document: string;
+  page: number;
+  section?: string;
+  chunk_index: number;
+  error: string;
+}
+
+interface IngestSummary {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+  failed: string[];
+  failedChunks: FailedChunk[];
+  chunksEmbedded: number;
+  chunksReused: number;
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
 }
 
 /**
- * Enrich chunk with document context to improve embedding quality
+ * Hash everything that determines a document's chunks:
+ * file contents, manifest metadata and the chunking version
  */
-function enrichChunkWithContext(
-  chunk: string,
-  documentName: string,
-  page: number,
-  chunkIndex: number,
-  totalChunks: number
-): string {
-  // Extract potential section header from chunk
-  const lines = chunk.split('\n');
-  const potentialHeader = lines[0].length < 60 && lines[0].length > 5 
-    ? lines[0] 
-    : null;
-  
-  // Add structured context that helps with retrieval
-  let enrichedContent = '';
-  
-  // Add document metadata (helps with general queries)
-  enrichedContent += `[Source: ${documentName}, Page ${page}]\n`;
-  
-  // Add section header if detected
-  if (potentialHeader) {
-    enrichedContent += `[Section: ${potentialHeader}]\n`;
-  }
-  
-  // Add the actual content
-  enrichedContent += `\n${chunk}`;
-  
-  return enrichedContent;
+function hashDocument(doc: DocumentSpec): string {
+  const { path: _filePath, ...metadata } = doc;
+  return sha256(
+    Buffer.concat([
+      fs.readFileSync(doc.path),
+      Buffer.from(
+        JSON.stringify({ metadata, version: INGEST_VERSION, chunker: chunkerOptionsFor(path.extname(doc.path)) })
+      ),
+    ])
+  );
 }
 
 /**
- * Extract section headers from text for better organization
+ * Chunk one document and write it to the store if it changed.
+ * Chunks whose enriched text hashes to an already-stored chunk reuse that
+ * embedding; the document is swapped in atomically once every chunk has one.
  */
-function detectSections(text: string): { header: string; content: string }[] {
-  const sections: { header: string; content: string }[] = [];
-  
-  // Split by common header patterns (all caps, numbered sections, etc.)
-  const lines = text.split('\n');
-  let currentHeader = 'Introduction';
-  let currentContent = '';
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Detect headers (all caps, short lines, or numbered)
-    if (
-      (trimmed.length > 0 && trimmed.length < 60 && trimmed === trimmed.toUpperCase()) ||
-      /^\d+\.\s+[A-Z]/.test(trimmed) ||
-      /^[A-Z][a-z]+(\s+[A-Z][a-z]+)*:$/.test(trimmed)
-    ) {
-      // Save previous section
-      if (currentContent.trim()) {
-        sections.push({ header: currentHeader, content: currentContent.trim() });
+async function ingestDocument(
+  doc: DocumentSpec,
+  existing: StoredDocument | undefined,
+  options: IngestOptions,
+  summary: IngestSummary
+) {
+  const store = getVectorStore();
+  console.log(`📄 Processing: ${doc.name} (${path.relative(process.cwd(), doc.path)})`);
+
+  if (!fs.existsSync(doc.path)) {
+    console.error(`❌ File not found: ${doc.path}`);
+    summary.failed.push(doc.name);
+    return;
+  }
+
+  const documentHash = hashDocument(doc);
+  if (!options.force && existing?.documentHash === documentHash) {
+    console.log('   ⏭️  Unchanged, skipping\n');
+    summary.unchanged.push(doc.name);
+    return;
+  }
+
+  // Extract text with sections using the loader for this file type
+  const pages = await loadDocument(doc.path);
+  console.log(`   Found ${pages.length} page sections`);
+
+  // Embeddings we already paid for, keyed by chunk hash
+  const previousEmbeddings = new Map<string, number[]>();
+  if (existing && !options.force) {
+    for (const chunk of await store.getDocumentChunks(doc.name)) {
+      if (chunk.metadata.chunk_hash) {
+        previousEmbeddings.set(chunk.metadata.chunk_hash, chunk.embedding);
       }
-      currentHeader = trimmed.replace(/:$/, '');
-      currentContent = '';
-    } else {
-      currentContent += line + '\n';
     }
   }
-  
-  // Add final section
-  if (currentContent.trim()) {
-    sections.push({ header: currentHeader, content: currentContent.trim() });
-  }
-  
-  return sections;
-}
 
-/**
- * Process a PDF file with enhanced text extraction
- */
-async function processPDF(filePath: string): Promise<{ page: number; text: string; section?: string }[]> {
-  const dataBuffer = fs.readFileSync(filePath);
-  const data = await pdf(dataBuffer);
-  
-  const fullText = data.text;
-  const numPages = data.numpages;
-  
-  console.log(`   PDF: ${numPages} pages, ${fullText.length} characters`);
-  
-  // Detect sections in the document
-  const sections = detectSections(fullText);
-  console.log(`   Detected ${sections.length} sections`);
-  
-  // Use actual page count if available
-  if (numPages && numPages > 0) {
-    const charsPerPage = Math.ceil(fullText.length / numPages);
-    const pages: { page: number; text: string; section?: string }[] = [];
-    
-    for (let i = 0; i < numPages; i++) {
-      const start = i * charsPerPage;
-      const end = Math.min((i + 1) * charsPerPage, fullText.length);
-      const pageText = fullText.slice(start, end);
-      
-      if (pageText.trim()) {
-        // Find which section this page belongs to
-        let pageSection = undefined;
-        let currentPos = 0;
-        for (const section of sections) {
-          currentPos += section.content.length;
-          if (currentPos > start) {
-            pageSection = section.header;
-            break;
-          }
-        }
-        
-        pages.push({
-          page: i + 1,
-          text: pageText,
-          section: pageSection,
-        });
+  // Chunk and enrich everything first so embeddings can be requested in batches
+  const chunksToStore: ChunkInput[] = [];
+  const pending: { chunkIndex: number; enrichedChunk: string }[] = [];
+  let reused = 0;
+
+  const chunkerOptions = chunkerOptionsFor(path.extname(doc.path));
+
+  // Process each page
+  for (const { page, text, section } of pages) {
+    // Token-sized chunks that keep steps, list items and table rows whole
+    const chunks = chunkText(text, chunkerOptions, section).map((chunk) => chunk.text);
+    logVerbose(`   Page ${page}: ${chunks.length} chunks (${text.length} chars)${section ? `, Section: ${section}` : ''}`);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+
+      // Enrich chunk with context before embedding
+      const enrichedChunk = enrichChunkWithContext(chunk, doc.name, page);
+      const chunkHash = sha256(enrichedChunk);
+
+      const embedding = previousEmbeddings.get(chunkHash);
+      if (embedding) {
+        reused++;
+      } else {
+        pending.push({ chunkIndex: chunksToStore.length, enrichedChunk });
       }
+
+      // But STORE the plain version (for keyword matching)
+      chunksToStore.push({
+        content: chunk, // Store PLAIN chunk for keyword matching
+        embedding: embedding || [], // Enriched embedding, filled in below if new
+        metadata: {
+          document: doc.name,
+          page,
+          section: section,
+          chunk_index: i,
+          document_id: doc.id,
+          source_file: path.relative(process.cwd(), doc.path),
+          category: doc.category,
+          model_year: doc.model_year,
+          vehicle_model: doc.vehicle_model,
+          language: doc.language,
+          effective_date: doc.effective_date,
+          document_hash: documentHash,
+          chunk_hash: chunkHash,
+        },
+      });
     }
-    
-    return pages;
   }
-  
-  // Fallback: estimate pages
-  const estimatedCharsPerPage = 2000;
-  const estimatedPages = Math.ceil(fullText.length / estimatedCharsPerPage);
-  const pages: { page: number; text: string }[] = [];
-  
-  for (let i = 0; i < estimatedPages; i++) {
-    const start = i * estimatedCharsPerPage;
-    const end = Math.min((i + 1) * estimatedCharsPerPage, fullText.length);
-    const pageText = fullText.slice(start, end);
-    
-    if (pageText.trim()) {
-      pages.push({
-        page: i + 1,
-        text: pageText,
+
+  if (options.dryRun) {
+    summary.chunksEmbedded += pending.length;
+    summary.chunksReused += reused;
+    (existing ? summary.updated : summary.added).push(doc.name);
+    console.log(`   ${pending.length} chunks would be embedded, ${reused} reused from the previous version`);
+    console.log(`🧪 Would ${existing ? 'update' : 'add'} ${doc.name}\n`);
+    return;
+  }
+
+  // Embed the enriched versions (batched, concurrent, retried)
+  const { embeddings, failures } = await generateEmbeddings(
+    pending.map((item) => item.enrichedChunk),
+    {
+      onProgress: (completed, total) => {
+        process.stdout.write(`   Progress: ${completed}/${total} chunks embedded...\r`);
+      },
+    }
+  );
+  if (pending.length > 0) process.stdout.write('\n');
+
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      const { metadata } = chunksToStore[pending[failure.index].chunkIndex];
+      summary.failedChunks.push({
+        document: doc.name,
+        page: metadata.page,
+        section: metadata.section,
+        chunk_index: metadata.chunk_index,
+        error: failure.error,
       });
     }
+    console.error(`   ❌ ${failures.length} chunk(s) could not be embedded`);
+    console.error(`   ❌ Keeping the previously stored version of ${doc.name}\n`);
+    summary.failed.push(doc.name);
+    return;
   }
-  
-  return pages;
+
+  pending.forEach((item, i) => {
+    chunksToStore[item.chunkIndex].embedding = embeddings[i]!;
+  });
+
+  summary.chunksEmbedded += pending.length;
+  summary.chunksReused += reused;
+  (existing ? summary.updated : summary.added).push(doc.name);
+  console.log(`   ${pending.length} chunks embedded, ${reused} reused from the previous version`);
+
+  await store.replaceDocument(doc.name, chunksToStore);
+  console.log(`✅ ${existing ? 'Updated' : 'Added'} ${doc.name} (${chunksToStore.length} chunks)\n`);
 }
 
 /**
- * Ingest documents with improved chunking and enrichment
+ * Ingest documents incrementally: only new or changed documents are
+ * re-chunked, and only chunks with new content are re-embedded
  */
-async function ingestDocuments() {
-  console.log('🚀 Starting IMPROVED document ingestion...\n');
-  console.log('📈 Enhancements:');
-  console.log('   - Medium semantic chunks (500 chars)');
-  console.log('   - Better sentence boundaries');
-  console.log('   - Context enrichment for embeddings');
-  console.log('   - Section detection\n');
-
-  const documents = [
-    {
-      name: 'VoltDrive Troubleshooting Guide',
-      path: path.join(process.cwd(), 'documents', 'troubleshooting_md.pdf'),
-    },
-    {
-      name: 'VoltDrive Warranty & Pricing',
-      path: path.join(process.cwd(), 'documents', 'warrantypricing_md.pdf'),
-    },
-  ];
+async function ingestDocuments(options: IngestOptions) {
+  console.log('🚀 Starting document ingestion...\n');
+
+  let documents: DocumentSpec[] = resolveDocuments(options.dir, options.manifest);
+  if (options.only.length > 0) {
+    documents = filterDocuments(documents, options.only);
+    console.log(`🔎 --only matched ${documents.length} document(s)`);
+  }
+
+  if (documents.length === 0) {
+    console.error('❌ No documents to ingest');
+    process.exitCode = 1;
+    return;
+  }
+
+  // The presets actually used for this run, one line per file type
+  console.log('📐 Chunk settings (tokens):');
+  const extensions = [...new Set(documents.map((doc) => path.extname(doc.path).toLowerCase()))].sort();
+  for (const extension of extensions) {
+    const { maxTokens, overlapTokens, minTokens } = chunkerOptionsFor(extension);
+    console.log(`   - ${extension || '(no extension)'}: max ${maxTokens}, overlap ${overlapTokens}, min ${minTokens}`);
+  }
+  console.log('   Chunks keep steps, list items and table rows whole and are enriched with source and section context\n');
 
-  // Clear existing documents
-  console.log('🗑️  Clearing existing documents...');
-  await clearAllDocuments();
-  console.log('✅ Cleared\n');
+  if (options.dryRun) {
+    console.log('🧪 Dry run: nothing will be embedded or written\n');
+  }
+  if (options.force) {
+    console.log('♻️  --force: re-embedding every chunk\n');
+  }
 
-  const allChunks: DocumentChunk[] = [];
-  let totalChunksCreated = 0;
+  const store = getVectorStore();
+  const stored = new Map((await store.listDocuments()).map((doc) => [doc.document, doc]));
+
+  const summary: IngestSummary = {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    failed: [],
+    failedChunks: [],
+    chunksEmbedded: 0,
+    chunksReused: 0,
+  };
 
   // Process each document
   for (const doc of documents) {
-    console.log(`📄 Processing: ${doc.name}`);
-    
-    if (!fs.existsSync(doc.path)) {
-      console.error(`❌ File not found: ${doc.path}`);
-      continue;
-    }
+    await ingestDocument(doc, stored.get(doc.name), options, summary);
+  }
 
-    // Extract text from PDF with sections
-    const pages = await processPDF(doc.path);
-    console.log(`   Found ${pages.length} pages`);
-
-    // Process each page
-    for (const { page, text, section } of pages) {
-      // Use improved semantic chunking with 500-char chunks
-      const chunks = chunkTextSemantic(text, 500, 100);
-      console.log(`   Page ${page}: ${chunks.length} chunks (${text.length} chars)${section ? `, Section: ${section}` : ''}`);
-      
-      totalChunksCreated += chunks.length;
-
-      // Generate embeddings for each chunk with enrichment
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        
-        try {
-          // Enrich chunk with context before embedding
-          const enrichedChunk = enrichChunkWithContext(
-            chunk,
-            doc.name,
-            page,
-            i,
-            chunks.length
-          );
-          
-          // Embed the enriched version (has context)
-          const embedding = await generateEmbedding(enrichedChunk);
-          
-          // But STORE the plain version (for keyword matching)
-          allChunks.push({
-            content: chunk, // Store PLAIN chunk for keyword matching
-            embedding,      // Use enriched embedding for semantic search
-            metadata: {
-              document: doc.name,
-              page,
-              section: section,
-              chunk_index: i,
-            },
-          });
-
-          // Add delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 200));
-          
-          // Progress indicator
-          if (allChunks.length % 10 === 0) {
-            process.stdout.write(`   Progress: ${allChunks.length} chunks embedded...\r`);
-          }
-        } catch (error) {
-          console.error(`   ❌ Error generating embedding for chunk ${i} on page ${page}:`, error);
-        }
+  // Documents no longer in the source set (a partial --only run can't tell)
+  if (options.only.length === 0) {
+    const current = new Set(documents.map((doc) => doc.name));
+    for (const name of stored.keys()) {
+      if (current.has(name)) continue;
+      if (!options.dryRun) {
+        await store.deleteDocument(name);
       }
+      console.log(`🗑️  ${options.dryRun ? 'Would remove' : 'Removed'} ${name}`);
+      summary.removed.push(name);
     }
+  }
+
+  console.log(`\n${options.dryRun ? '🧪 Dry run' : '✅ Document ingestion'} complete!`);
+  console.log(`📊 Summary:`);
+  console.log(`   - Added: ${summary.added.length}`);
+  console.log(`   - Updated: ${summary.updated.length}`);
+  console.log(`   - Removed: ${summary.removed.length}`);
+  console.log(`   - Unchanged: ${summary.unchanged.length}`);
+  console.log(`   - Chunks ${options.dryRun ? 'to embed' : 'embedded'}: ${summary.chunksEmbedded} (${summary.chunksReused} reused)`);
 
-    console.log(`✅ Processed ${doc.name}\n`);
+  if (summary.failed.length > 0) {
+    console.error(`   - Failed: ${summary.failed.length} (${summary.failed.join(', ')})`);
+    process.exitCode = 1;
   }
 
-  // Insert all chunks into Supabase
-  console.log(`\n💾 Inserting ${allChunks.length} chunks into database...`);
-  console.log(`📊 Average chunk size: ${Math.round(allChunks.reduce((sum, c) => sum + c.content.length, 0) / allChunks.length)} characters`);
-  
-  // Insert in batches
-  const batchSize = 50;
-  for (let i = 0; i < allChunks.length; i += batchSize) {
-    const batch = allChunks.slice(i, i + batchSize);
-    await insertDocumentChunks(batch);
-    console.log(`   Inserted batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(allChunks.length / batchSize)}`);
+  if (summary.failedChunks.length > 0) {
+    console.error('\n❌ Chunks that could not be embedded:');
+    for (const chunk of summary.failedChunks) {
+      console.error(`   - ${chunk.document}, page ${chunk.page}, chunk ${chunk.chunk_index}${chunk.section ? ` (${chunk.section})` : ''}: ${chunk.error}`);
+    }
   }
 
-  console.log('\n✅ IMPROVED document ingestion complete!');
-  console.log(`📊 Summary:`);
-  console.log(`   - Total chunks: ${allChunks.length}`);
-  console.log(`   - Documents: ${documents.length}`);
-  console.log(`   - Chunks per document: ~${Math.round(allChunks.length / documents.length)}`);
-  console.log('\n🎯 Expected improvements:');
-  console.log('   - Better semantic coherence');
-  console.log('   - Higher similarity scores (target: 0.75-0.95+)');
-  console.log('   - More relevant retrievals');
+  if (options.report) {
+    fs.mkdirSync(path.dirname(options.report), { recursive: true });
+    fs.writeFileSync(options.report, JSON.stringify(summary, null, 2) + '\n');
+    console.log(`\n📝 Wrote report to ${path.relative(process.cwd(), options.report)}`);
+  }
 }
 
-// Run the ingestion
-ingestDocuments().catch(console.error);
\ No newline at end of file
+const USAGE = `Usage: npm run ingest -- [options]
+
+Options:
+  --dir <path>        Documents directory to scan (default: documents)
+  --manifest <path>   YAML/JSON manifest (default: <dir>/manifest.yaml|yml|json if present)
+  --only <names>      Only ingest these documents (id, display name or file name; comma-separated or repeated)
+  --dry-run           Report what would change without embedding or writing to the store
+  --report <path>     Write the run summary, including chunks that failed to embed, as JSON
+  --force             Re-process every document and re-embed every chunk, ignoring content hashes
+  --verbose           Log per-page and per-chunk details
+  --help              Show this message`;
+
+const { values: args } = parseArgs({
+  options: {
+    dir: { type: 'string', default: 'documents' },
+    manifest: { type: 'string' },
+    only: { type: 'string', multiple: true, default: [] },
+    'dry-run': { type: 'boolean', default: false },
+    force: { type: 'boolean', default: false },
+    report: { type: 'string' },
+    verbose: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (args.help) {
+  console.log(USAGE);
+} else {
+  verbose = Boolean(args.verbose);
+
+  // Run the ingestion
+  ingestDocuments({
+    dir: path.resolve(args.dir as string),
+    manifest: args.manifest ? path.resolve(args.manifest) : undefined,
+    only: (args.only as string[]).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean),
+    dryRun: Boolean(args['dry-run']),
+    force: Boolean(args.force),
+    report: args.report ? path.resolve(args.report) : undefined,
+  }).catch((error) => {
+    console.error('❌ Ingestion failed:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkAnswer } from '../lib/answer-checks';
+import { Source } from '../types';
+
+const SOURCES: Source[] = [
+  {
+    document: 'VoltDrive Troubleshooting Guide',
+    page: 2,
+    content: 'If the car does not start, hold the key fob against the start button and press the brake pedal.',
+    similarity: 0.82,
+  },
+  {
+    document: 'VoltDrive Warranty & Pricing',
+    page: 1,
+    content: 'The high-voltage battery warranty covers manufacturing defects for eight years or 100,000 miles.',
+    similarity: 0.76,
+  },
+];
+
+describe('checkAnswer', () => {
+  it('collects valid citations and their support', () => {
+    const check = checkAnswer(
+      'Hold the key fob against the start button and press the brake pedal [1]. The battery warranty covers manufacturing defects for eight years [2].',
+      SOURCES
+    );
+
+    assert.deepEqual(check.citedSources, [1, 2]);
+    assert.deepEqual(check.invalidCitations, []);
+    assert.deepEqual(check.unsupportedCitations, []);
+    assert.equal(check.faithfulness, 1);
+    assert.equal(check.saysNotCovered, false);
+  });
+
+  it('flags citations of sources that were not retrieved', () => {
+    const check = checkAnswer('Hold the key fob against the start button [7]. Source 3 says to press the brake pedal.', SOURCES);
+
+    assert.deepEqual(check.citedSources, []);
+    assert.deepEqual(check.invalidCitations, ['[7]', 'Source 3']);
+  });
+
+  it('matches "document, page N" references to the retrieved page', () => {
+    const check = checkAnswer(
+      'The Warranty & Pricing guide, page 1, says battery defects are covered for eight years.',
+      SOURCES
+    );
+
+    assert.deepEqual(check.citedSources, [2]);
+  });
+
+  it('flags a citation whose sentence the cited source does not support', () => {
+    const check = checkAnswer('Hold the key fob against the start button and press the brake pedal [2].', SOURCES);
+
+    assert.equal(check.unsupportedCitations.length, 1);
+    assert.equal(check.unsupportedCitations[0].source, 2);
+    // Still supported by another retrieved source, so not an unsupported claim
+    assert.equal(check.faithfulness, 1);
+  });
+
+  it('counts claims no source supports', () => {
+    const check = checkAnswer(
+      'Hold the key fob against the start button [1]. Replacing the windshield wipers costs forty dollars at any dealer.',
+      SOURCES
+    );
+
+    assert.equal(check.faithfulness, 0.5);
+    assert.deepEqual(check.unsupportedSentences, ['Replacing the windshield wipers costs forty dollars at any dealer.']);
+  });
+
+  it('does not treat "not covered" replies or the restated question as claims', () => {
+    const question = 'Can I tow a trailer with my VoltDrive?';
+    const check = checkAnswer(
+      `You asked: ${question} I couldn't find towing limits in the documentation provided.`,
+      SOURCES,
+      { question }
+    );
+
+    assert.equal(check.saysNotCovered, true);
+    assert.equal(check.faithfulness, 1);
+    assert.deepEqual(check.unsupportedSentences, []);
+  });
+});
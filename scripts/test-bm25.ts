@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BM25, tokenize } from '../lib/bm25';
+
+describe('tokenize', () => {
+  it('lowercases, drops stop words and plural endings', () => {
+    assert.deepEqual(tokenize('How do I rotate the Tires?'), ['rotate', 'tire']);
+  });
+
+  it('keeps double-s words and short words as written', () => {
+    assert.deepEqual(tokenize('Glass gas bus'), ['glass', 'gas', 'bus']);
+  });
+
+  it('keeps hyphenated codes whole as well as split', () => {
+    assert.deepEqual(tokenize('Error E-204 on a plug-in'), ['error', 'e-204', 'e', '204', 'plug']);
+  });
+
+  it('keeps the stem of a contraction', () => {
+    assert.deepEqual(tokenize("The car won't start"), ['car', 'won', 'start']);
+  });
+});
+
+describe('BM25', () => {
+  const documents = [
+    'The battery warranty covers defects for eight years',
+    'Discover the infotainment system and its apps',
+    'Tire rotation every 7,500 miles keeps the tires wearing evenly',
+  ].map(tokenize);
+  const bm25 = new BM25(documents);
+
+  it('matches whole words only', () => {
+    const scores = bm25.scoreAll(tokenize('What does the warranty cover?'));
+    assert.ok(scores[0] > 0);
+    // "discover" contains "cover" but isn't the same word
+    assert.equal(scores[1], 0);
+  });
+
+  it('scores repeated terms higher, with diminishing returns', () => {
+    const query = tokenize('tire');
+    const once = new BM25([['tire', 'wear'], ['brake', 'pad']]).score(query, 0);
+    const twice = new BM25([['tire', 'tire'], ['brake', 'pad']]).score(query, 0);
+    assert.ok(twice > once);
+    assert.ok(twice < 2 * once);
+  });
+
+  it('ranks rarer terms higher', () => {
+    const index = new BM25([['battery', 'range'], ['battery', 'charge'], ['battery', 'warranty']]);
+    assert.ok(index.score(['warranty'], 2) > index.score(['battery'], 2));
+  });
+
+  it('scores every document in order', () => {
+    assert.equal(bm25.size, 3);
+    assert.deepEqual(
+      bm25.scoreAll(tokenize('tire rotation')),
+      [0, 1, 2].map((i) => bm25.score(tokenize('tire rotation'), i))
+    );
+    assert.ok(bm25.score(tokenize('tire rotation'), 2) > 0);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CHAT_STREAM_VERSION, encodeChatEvent, readChatStream } from '../lib/chat-stream';
+import { ChatStreamEvent } from '../types';
+
+/**
+ * A response body delivering the given strings as separate network chunks
+ */
+function bodyOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(chunks: string[]): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(bodyOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+const START: ChatStreamEvent = { type: 'start', version: CHAT_STREAM_VERSION };
+const ANSWER: ChatStreamEvent[] = [
+  START,
+  { type: 'delta', content: 'Hold the key fob ' },
+  { type: 'delta', content: 'against the start button.' },
+  { type: 'done', messageId: 'm1' },
+];
+
+describe('readChatStream', () => {
+  it('reassembles a frame split in the middle of its data line', async () => {
+    const wire = ANSWER.map(encodeChatEvent).join('');
+    const cut = wire.indexOf('key fob');
+
+    assert.deepEqual(await readAll([wire.slice(0, cut), wire.slice(cut)]), ANSWER);
+  });
+
+  it('reads several events delivered in one chunk', async () => {
+    assert.deepEqual(await readAll([ANSWER.map(encodeChatEvent).join('')]), ANSWER);
+  });
+
+  it('accepts CRLF line endings and payloads split over several data lines', async () => {
+    const wire = [
+      `data: ${JSON.stringify(START)}\r\n\r\n`,
+      ': keep-alive\r\n\r\n',
+      'data: {"type": "delta",\r\ndata: "content": "Hi"}\r\n\r\n',
+      'data: {"type":"done"}\r\n\r\n',
+    ];
+
+    assert.deepEqual(await readAll(wire), [START, { type: 'delta', content: 'Hi' }, { type: 'done' }]);
+  });
+
+  it('stops at an error event', async () => {
+    const events = await readAll([
+      encodeChatEvent(START),
+      encodeChatEvent({ type: 'error', message: 'Generation failed' }),
+    ]);
+
+    assert.deepEqual(events.at(-1), { type: 'error', message: 'Generation failed' });
+  });
+
+  it('rejects a stream speaking another protocol version', async () => {
+    await assert.rejects(
+      readAll([encodeChatEvent({ type: 'start', version: CHAT_STREAM_VERSION + 1 }), encodeChatEvent({ type: 'done' })]),
+      /Unsupported chat stream version/
+    );
+  });
+
+  it('rejects a stream that does not begin with start', async () => {
+    await assert.rejects(readAll([encodeChatEvent({ type: 'done' })]), /must begin with "start"/);
+  });
+
+  it('rejects a malformed frame', async () => {
+    await assert.rejects(readAll([encodeChatEvent(START), 'data: {"type":\n\n']), /Malformed chat stream event/);
+  });
+
+  it('throws when the stream ends without done or error', async () => {
+    const events: ChatStreamEvent[] = [];
+    await assert.rejects(async () => {
+      for await (const event of readChatStream(bodyOf(ANSWER.slice(0, 2).map(encodeChatEvent)))) {
+        events.push(event);
+      }
+    }, /ended before the answer was complete/);
+    // What arrived before the cut is still delivered
+    assert.deepEqual(events, ANSWER.slice(0, 2));
+  });
+});
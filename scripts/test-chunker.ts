@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CHUNKER_PRESETS, chunkText, chunkerOptionsFor, countTokens } from '../lib/chunker';
+
+const TROUBLESHOOTING = `TROUBLESHOOTING: VEHICLE WILL NOT START
+If the VoltDrive does not power on when the brake pedal is pressed, work through the steps below in order.
+1. Make sure the key fob is inside the cabin. A fob with a low battery may not be
+detected; hold it against the marked area on the steering column.
+2. Press the brake pedal firmly and press the START button once.
+3. Check the 12V battery. Dim interior lights or a blank display indicate a discharged 12V battery.
+4. If the high-voltage battery warning light is on, do not attempt to drive. Contact VoltDrive Roadside Assistance.`;
+
+const WARRANTY_TABLE = `WARRANTY COVERAGE
+| Component | Coverage | Mileage |
+| --- | --- | --- |
+${Array.from({ length: 40 }, (_, i) => `| Component ${i + 1} | ${i + 2} years | ${(i + 1) * 10000} miles |`).join('\n')}`;
+
+const small = { maxTokens: 80, overlapTokens: 20, minTokens: 20 };
+
+describe('chunkText', () => {
+  it('keeps numbered steps intact and whitespace-normalized', () => {
+    const chunks = chunkText(TROUBLESHOOTING, small);
+    const steps = chunks.flatMap((chunk) => chunk.text.split('\n')).filter((line) => /^\d\. /.test(line));
+
+    // Wrapped step 1 is re-joined, and no step is split at its ". " boundaries
+    assert.ok(steps.includes(
+      '1. Make sure the key fob is inside the cabin. A fob with a low battery may not be detected; hold it against the marked area on the steering column.'
+    ));
+    for (const step of ['2. ', '3. ', '4. ']) {
+      assert.ok(steps.some((line) => line.startsWith(step) && /[.!?]$/.test(line)), `step ${step} should be whole`);
+    }
+  });
+
+  it('carries the section heading into every chunk', () => {
+    const chunks = chunkText(TROUBLESHOOTING, small);
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.equal(chunk.heading, 'TROUBLESHOOTING: VEHICLE WILL NOT START');
+      assert.ok(chunk.text.startsWith('TROUBLESHOOTING: VEHICLE WILL NOT START\n'));
+    }
+  });
+
+  it('uses the loader section path as the heading', () => {
+    const chunks = chunkText('Home Charging\nPlug in the Level 2 charger and set a charging schedule.', CHUNKER_PRESETS.markdown, 'Charging > Home Charging');
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].text, 'Charging > Home Charging\nPlug in the Level 2 charger and set a charging schedule.');
+  });
+
+  it('starts a new chunk at each heading', () => {
+    const text = `# Charging\nUse the supplied cable.\n\n# Tire Pressure\nCheck pressure monthly when tires are cold.`;
+    const chunks = chunkText(text, CHUNKER_PRESETS.markdown);
+    assert.deepEqual(chunks.map((chunk) => chunk.heading), ['Charging', 'Tire Pressure']);
+    assert.ok(!chunks[0].text.includes('pressure'));
+  });
+
+  it('never splits table rows and repeats the header row', () => {
+    const chunks = chunkText(WARRANTY_TABLE, small);
+    assert.ok(chunks.length > 2);
+
+    for (const chunk of chunks) {
+      const rows = chunk.text.split('\n').slice(1);
+      assert.equal(rows[0], '| Component | Coverage | Mileage |');
+      for (const row of rows) {
+        assert.match(row, /^\|.*\|$/);
+      }
+    }
+
+    const bodyRows = new Set(chunks.flatMap((chunk) => chunk.text.split('\n').filter((row) => /^\| Component \d/.test(row))));
+    assert.equal(bodyRows.size, 40);
+  });
+
+  it('respects the token budget', () => {
+    for (const text of [TROUBLESHOOTING, WARRANTY_TABLE]) {
+      for (const chunk of chunkText(text, small)) {
+        assert.ok(chunk.tokens <= small.maxTokens + small.minTokens, `${chunk.tokens} tokens`);
+        assert.equal(chunk.tokens, countTokens(chunk.text));
+      }
+    }
+  });
+
+  it('overlaps with whole trailing units only', () => {
+    const chunks = chunkText(TROUBLESHOOTING, small);
+    for (let i = 1; i < chunks.length; i++) {
+      const previousLines = new Set(chunks[i - 1].text.split('\n'));
+      const firstLine = chunks[i].text.split('\n')[1];
+      // The first body line is either a repeated whole unit or new content, never a fragment
+      assert.ok(previousLines.has(firstLine) || !chunks[i - 1].text.includes(firstLine.slice(0, 20)));
+    }
+  });
+
+  it('splits an oversized paragraph by sentence', () => {
+    const paragraph = Array.from({ length: 30 }, (_, i) => `Regenerative braking level ${i} recovers energy when you lift off the accelerator.`).join(' ');
+    const chunks = chunkText(paragraph, small);
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.match(chunk.text, /^Regenerative braking level \d+ [\s\S]*accelerator\.$/);
+    }
+  });
+
+  it('folds a short trailing chunk into the previous one instead of dropping it', () => {
+    const text = `${'The battery management system balances cell voltages while charging. '.repeat(5).trim()}\nDone.`;
+    const chunks = chunkText(text, { maxTokens: 60, overlapTokens: 0, minTokens: 20 });
+    assert.ok(chunks[chunks.length - 1].text.endsWith('Done.'));
+    assert.ok(!chunks.some((chunk) => chunk.text === 'Done.'));
+  });
+
+  it('returns nothing for blank text', () => {
+    assert.deepEqual(chunkText(' \n\n  '), []);
+  });
+});
+
+describe('chunkerOptionsFor', () => {
+  it('picks presets by extension or type', () => {
+    assert.equal(chunkerOptionsFor('.PDF'), CHUNKER_PRESETS.pdf);
+    assert.equal(chunkerOptionsFor('.htm'), CHUNKER_PRESETS.html);
+    assert.equal(chunkerOptionsFor('markdown'), CHUNKER_PRESETS.markdown);
+    assert.equal(chunkerOptionsFor('.rtf'), CHUNKER_PRESETS.default);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { citationLinkNumber, citedSourceNumbers, documentPageHref, linkCitations } from '../lib/citations';
+
+describe('citedSourceNumbers', () => {
+  it('lists distinct sources in order of first citation', () => {
+    assert.deepEqual(citedSourceNumbers('Charge to 80% [3]. Precondition first [1, 3]. See also [2].', 3), [3, 1, 2]);
+  });
+
+  it('drops numbers outside the retrieved sources', () => {
+    assert.deepEqual(citedSourceNumbers('As noted [0] and [4, 2].', 3), [2]);
+  });
+
+  it('ignores markers that are already links', () => {
+    assert.deepEqual(citedSourceNumbers('Tap [1](#source-1) to open it.', 2), []);
+  });
+});
+
+describe('linkCitations', () => {
+  it("turns each valid number into a link to the message's source chip", () => {
+    assert.equal(linkCitations('Reset the fob [1, 3].', 3, 'm1'), 'Reset the fob [1](#source-m1-1)[3](#source-m1-3).');
+  });
+
+  it('keeps markers with no matching source as plain text', () => {
+    assert.equal(linkCitations('See [7] and [2, 9].', 2, 'm1'), 'See [7] and [2](#source-m1-2).');
+  });
+});
+
+describe('citationLinkNumber', () => {
+  it("reads the source number from the message's own marker links only", () => {
+    assert.equal(citationLinkNumber('#source-m1-2', 'm1'), 2);
+    assert.equal(citationLinkNumber('#source-m2-2', 'm1'), null);
+    assert.equal(citationLinkNumber('https://example.com', 'm1'), null);
+    assert.equal(citationLinkNumber(undefined, 'm1'), null);
+  });
+});
+
+describe('documentPageHref', () => {
+  it('links to the encoded document page', () => {
+    assert.equal(documentPageHref({ document: 'Warranty & Pricing', page: 2 }), '/docs/Warranty%20%26%20Pricing/2');
+  });
+
+  it('highlights the chunk by the first 16 characters of its hash', () => {
+    assert.equal(
+      documentPageHref({ document: 'Guide', page: 3, chunkHash: '0123456789abcdef0123456789abcdef' }),
+      '/docs/Guide/3?chunk=0123456789abcdef#cited'
+    );
+  });
+});
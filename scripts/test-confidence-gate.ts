@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { assessConfidence, buildHandoff, getConfidenceThresholds, HandoffContext } from '../lib/confidence-gate';
+
+const OVERRIDES = ['RAG_CONFIDENCE_ANSWER_HEURISTIC', 'RAG_CONFIDENCE_CAVEAT_HEURISTIC', 'RAG_CONFIDENCE_ANSWER_NONE_RRF'];
+
+describe('getConfidenceThresholds', () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const name of OVERRIDES) {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of OVERRIDES) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('uses per-reranker defaults', () => {
+    assert.deepEqual(getConfidenceThresholds('heuristic'), { answer: 0.45, caveat: 0.3 });
+    assert.deepEqual(getConfidenceThresholds('llm'), { answer: 0.7, caveat: 0.4 });
+  });
+
+  it("picks 'none' defaults by the hybrid mode whose scores it keeps", () => {
+    assert.deepEqual(getConfidenceThresholds('none', 'rrf'), { answer: 0.9, caveat: 0.5 });
+    assert.deepEqual(getConfidenceThresholds('none', 'client'), { answer: 0.5, caveat: 0.35 });
+  });
+
+  it('lets the environment override each threshold per reranker', () => {
+    process.env.RAG_CONFIDENCE_ANSWER_HEURISTIC = '0.8';
+    assert.deepEqual(getConfidenceThresholds('heuristic'), { answer: 0.8, caveat: 0.3 });
+    // Other scales keep their own defaults
+    assert.deepEqual(getConfidenceThresholds('llm'), { answer: 0.7, caveat: 0.4 });
+
+    process.env.RAG_CONFIDENCE_CAVEAT_HEURISTIC = 'not a number';
+    assert.deepEqual(getConfidenceThresholds('heuristic'), { answer: 0.8, caveat: 0.3 });
+  });
+
+  it("keys 'none' overrides by the hybrid mode", () => {
+    process.env.RAG_CONFIDENCE_ANSWER_NONE_RRF = '0.95';
+    assert.deepEqual(getConfidenceThresholds('none', 'rrf'), { answer: 0.95, caveat: 0.5 });
+    assert.deepEqual(getConfidenceThresholds('none', 'client'), { answer: 0.5, caveat: 0.35 });
+  });
+});
+
+describe('assessConfidence', () => {
+  const thresholds = { answer: 0.6, caveat: 0.3 };
+
+  it('decides from the best score', () => {
+    assert.equal(assessConfidence([0.1, 0.65], thresholds).decision, 'answer');
+    assert.equal(assessConfidence([0.6], thresholds).decision, 'answer');
+    assert.equal(assessConfidence([0.2, 0.3], thresholds).decision, 'caveat');
+    assert.equal(assessConfidence([0.29], thresholds).decision, 'refuse');
+  });
+
+  it('declines with a zero score when nothing was retrieved', () => {
+    assert.deepEqual(assessConfidence([], thresholds), { decision: 'refuse', score: 0, thresholds });
+  });
+});
+
+describe('buildHandoff', () => {
+  const thresholds = { answer: 0.6, caveat: 0.3 };
+  const context: HandoffContext = {
+    question: 'Why is my range so low?',
+    searchedFor: 'Why is the range low in cold weather?',
+    intents: ['troubleshooting'],
+    sources: [
+      { document: 'Troubleshooting Guide', page: 4, content: 'Range drops in cold weather.' },
+      { document: 'Troubleshooting Guide', page: 4, content: 'Precondition while plugged in.' },
+    ],
+    history: [{ id: 'u1', role: 'user', content: 'It is very cold here', timestamp: new Date() }],
+  };
+
+  it('offers no handoff for a confident answer', () => {
+    assert.equal(buildHandoff(context, assessConfidence([0.9], thresholds)), undefined);
+  });
+
+  it('summarizes a low-confidence answer for an agent', () => {
+    const handoff = buildHandoff(context, assessConfidence([0.41234], thresholds));
+
+    assert.equal(handoff?.reason, 'low_confidence');
+    assert.equal(handoff?.decision, 'caveat');
+    assert.equal(handoff?.confidence, 0.412);
+    assert.deepEqual(handoff?.summary.split('\n'), [
+      'Customer question: Why is my range so low?',
+      'Searched documentation for: Why is the range low in cold weather?',
+      'Topic: troubleshooting',
+      'Assistant answered with low confidence (best match 41%); please confirm.',
+      'Closest documentation:',
+      '- Troubleshooting Guide, page 4',
+      'Earlier in the conversation:',
+      '- Customer: It is very cold here',
+    ]);
+  });
+
+  it('reports no match when nothing was retrieved', () => {
+    const handoff = buildHandoff({ ...context, sources: [] }, assessConfidence([], thresholds));
+
+    assert.equal(handoff?.reason, 'no_match');
+    assert.equal(handoff?.decision, 'refuse');
+    assert.match(handoff?.summary ?? '', /could not answer from the documentation \(best match 0%\)/);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+// Offline: hashed bag-of-words embeddings and an in-process store
+process.env.LLM_PROVIDER = 'fake';
+process.env.VECTOR_STORE = 'memory';
+
+import { generateEmbedding } from '../lib/azure-openai';
+import { classifyIntentByRules, performRAG } from '../lib/rag';
+import { getVectorStore } from '../lib/vector-store';
+
+describe('classifyIntentByRules', () => {
+  it('matches cues as whole words, not inside unrelated words', () => {
+    for (const question of [
+      'How do I avoid losing range in winter?',
+      'The steering feels heavy at low speed',
+      'What does the VIN prefix mean?',
+      'I discovered a scratch on the door',
+      'Can I wear a costume while driving?',
+      'Is there a deadline to register the car?',
+    ]) {
+      assert.deepEqual(classifyIntentByRules(question), ['general'], question);
+    }
+  });
+
+  it('still matches cues as words, with plural endings and typographic apostrophes', () => {
+    assert.deepEqual(classifyIntentByRules('What are the costs of a service?'), ['pricing']);
+    assert.deepEqual(classifyIntentByRules('The car won’t start'), ['troubleshooting']);
+    assert.deepEqual(classifyIntentByRules('Would this void my coverage?'), ['warranty']);
+    assert.deepEqual(classifyIntentByRules('Is a $450 quote for tires normal?'), ['pricing']);
+  });
+
+  it('keeps every intent scoring at least half the top score', () => {
+    assert.deepEqual(
+      classifyIntentByRules('Is a battery replacement covered, and what does it cost?').sort(),
+      ['pricing', 'warranty']
+    );
+  });
+});
+
+describe('performRAG routing fallback', () => {
+  const CHUNKS = [
+    {
+      document: 'VoltDrive Warranty Guide',
+      content: 'The high-voltage battery warranty covers manufacturing defects for eight years or 100,000 miles.',
+    },
+    {
+      document: 'VoltDrive Charging Guide',
+      content:
+        'The portable charging cable plugs into a standard household outlet. The adapter kit for the portable charging cable includes a travel case.',
+    },
+  ];
+
+  before(async () => {
+    const store = getVectorStore();
+    await store.insertChunks(
+      await Promise.all(
+        CHUNKS.map(async ({ document, content }, i) => ({
+          content,
+          embedding: await generateEmbedding(content),
+          metadata: { document, page: 1, chunk_index: i },
+        }))
+      )
+    );
+  });
+
+  it('searches the whole corpus when the routed documents only match weakly', async () => {
+    // "claim" routes to the warranty guide, which doesn't cover the cable; with
+    // no similarity threshold its chunk is still retrieved, as a weak match
+    const result = await performRAG('Can I claim a portable charging cable adapter kit with a travel case?', 8, 0, {
+      quiet: true,
+      hybridMode: 'client',
+      intentRouter: 'rules',
+    });
+
+    assert.deepEqual(result.route.intents, ['warranty']);
+    assert.deepEqual(result.route.documents, []);
+    assert.equal(result.sources[0]?.document, 'VoltDrive Charging Guide');
+  });
+
+  it('keeps the routed documents when they match well', async () => {
+    const result = await performRAG('Does the battery warranty cover manufacturing defects for eight years?', 8, 0, {
+      quiet: true,
+      hybridMode: 'client',
+      intentRouter: 'rules',
+    });
+
+    assert.deepEqual(result.route.documents, ['VoltDrive Warranty Guide']);
+    assert.equal(result.sources[0]?.document, 'VoltDrive Warranty Guide');
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluateRanking, summarizeMetrics } from '../lib/retrieval-metrics';
+
+const GUIDE = 'VoltDrive Troubleshooting Guide';
+const WARRANTY = 'VoltDrive Warranty & Pricing';
+
+describe('evaluateRanking', () => {
+  it('requires the expected page when one is given', () => {
+    const retrieved = [
+      { document: WARRANTY, page: 1 },
+      { document: WARRANTY, page: 2 },
+    ];
+
+    const anyPage = evaluateRanking(retrieved, [{ document: WARRANTY }], [1]);
+    assert.equal(anyPage.firstRelevantRank, 1);
+    assert.equal(anyPage.recall[1], 1);
+
+    // Same document, wrong page at rank 1: only the page 2 hit counts
+    const pageTwo = evaluateRanking(retrieved, [{ document: WARRANTY, page: 2 }], [1, 2]);
+    assert.equal(pageTwo.firstRelevantRank, 2);
+    assert.equal(pageTwo.reciprocalRank, 0.5);
+    assert.equal(pageTwo.recall[1], 0);
+    assert.equal(pageTwo.recall[2], 1);
+  });
+
+  it('scores nothing when the expected page is never retrieved', () => {
+    const metrics = evaluateRanking(
+      [
+        { document: GUIDE, page: 2 },
+        { document: GUIDE, page: 3 },
+      ],
+      [{ document: GUIDE, page: 4 }],
+      [1, 3]
+    );
+
+    assert.equal(metrics.firstRelevantRank, null);
+    assert.equal(metrics.reciprocalRank, 0);
+    assert.deepEqual(metrics.recall, { 1: 0, 3: 0 });
+    assert.deepEqual(metrics.ndcg, { 1: 0, 3: 0 });
+  });
+
+  it('counts several chunks from the same expected page once', () => {
+    const metrics = evaluateRanking(
+      [
+        { document: GUIDE, page: 5 },
+        { document: GUIDE, page: 5 },
+        { document: WARRANTY, page: 3 },
+      ],
+      [
+        { document: GUIDE, page: 5 },
+        { document: WARRANTY, page: 3 },
+      ],
+      [2, 3]
+    );
+
+    assert.equal(metrics.recall[2], 0.5);
+    assert.equal(metrics.recall[3], 1);
+    // Hits at ranks 1 and 3 against an ideal of ranks 1 and 2
+    const idcg = 1 + 1 / Math.log2(3);
+    assert.ok(Math.abs(metrics.ndcg[3] - (1 + 1 / Math.log2(4)) / idcg) < 1e-9);
+  });
+});
+
+describe('summarizeMetrics', () => {
+  it('averages each metric across questions', () => {
+    const ks = [1];
+    const summary = summarizeMetrics(
+      [
+        evaluateRanking([{ document: GUIDE, page: 2 }], [{ document: GUIDE, page: 2 }], ks),
+        evaluateRanking([{ document: GUIDE, page: 3 }], [{ document: GUIDE, page: 2 }], ks),
+      ],
+      ks
+    );
+
+    assert.equal(summary.count, 2);
+    assert.equal(summary.recall[1], 0.5);
+    assert.equal(summary.mrr, 0.5);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+// The 'llm' mode is never reached below, but keep any import of the provider offline
+process.env.LLM_PROVIDER = 'fake';
+
+import { buildSafetyInstructions, buildSafetyNotice, classifySafety, classifySafetyByRules } from '../lib/safety';
+
+describe('classifySafetyByRules', () => {
+  it('flags each category from its own wording', () => {
+    assert.deepEqual(classifySafetyByRules("Don't touch the orange cables").categories, ['high_voltage']);
+    assert.deepEqual(classifySafetyByRules('The car was submerged in the flood').categories, ['high_voltage']);
+    assert.deepEqual(classifySafetyByRules('There is smoke coming from the hood').categories, ['fire_smoke']);
+    assert.deepEqual(classifySafetyByRules('The battery is overheating').categories, ['thermal_event']);
+    assert.deepEqual(classifySafetyByRules('I hear hissing noises under the floor').categories, ['thermal_event']);
+    assert.deepEqual(classifySafetyByRules('I crashed into a pole').categories, ['collision']);
+    assert.deepEqual(classifySafetyByRules('I was rear-ended yesterday').categories, ['collision']);
+  });
+
+  it('reports every category that matches, in a fixed order, with the lowercased phrases', () => {
+    const result = classifySafetyByRules('After the Accident the battery pack was very hot and Smoking');
+
+    assert.deepEqual(result.categories, ['fire_smoke', 'thermal_event', 'collision']);
+    assert.deepEqual(result.matched, ['smoking', 'pack was very hot', 'accident']);
+  });
+
+  it('leaves everyday questions unflagged', () => {
+    for (const question of [
+      'How long does charging take at home?',
+      'What does the battery warranty cover?',
+      'How do I reset the touchscreen?',
+      'Can I charge in the rain?',
+    ]) {
+      assert.deepEqual(classifySafetyByRules(question), { categories: [], matched: [] }, question);
+    }
+  });
+});
+
+describe('classifySafety', () => {
+  it("never flags in 'off' mode", async () => {
+    assert.deepEqual(await classifySafety('The battery is on fire', 'off'), {
+      triggered: false,
+      categories: [],
+      via: 'off',
+      matched: [],
+    });
+  });
+
+  it("answers from the rules in 'rules' mode", async () => {
+    const assessment = await classifySafety('I smell smoke', 'rules');
+
+    assert.equal(assessment.triggered, true);
+    assert.equal(assessment.via, 'rules');
+    assert.deepEqual(assessment.categories, ['fire_smoke']);
+  });
+});
+
+describe('safety prompt and banner', () => {
+  it('adds no instructions when nothing was flagged', () => {
+    assert.equal(buildSafetyInstructions([]), '');
+  });
+
+  it('puts one instruction and one banner step per category', () => {
+    const instructions = buildSafetyInstructions(['fire_smoke', 'collision']);
+    assert.match(instructions, /^SAFETY-CRITICAL QUESTION/);
+    assert.match(instructions, /call emergency services \(911 in the US\)/);
+    assert.match(instructions, /After a collision/);
+
+    const notice = buildSafetyNotice(['fire_smoke', 'collision']);
+    assert.deepEqual(notice.categories, ['fire_smoke', 'collision']);
+    assert.equal(notice.steps.length, 2);
+  });
+});
@@ -14,11 +14,28 @@ create table document_chunks (
 create index on document_chunks using ivfflat (embedding vector_cosine_ops)
 with (lists = 100);
 
+-- Metadata filter used by the search functions: a key matches chunks that
+-- carry the same value or don't set the key (general documents)
+create or replace function metadata_matches (metadata jsonb, filter jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select not exists (
+    select 1
+    from jsonb_each(filter) as f(key, value)
+    where metadata ? f.key
+      and jsonb_typeof(metadata->f.key) <> 'null'
+      and metadata->f.key <> f.value
+  );
+$$;
+
 -- Create a function to search for similar documents
 create or replace function match_documents (
   query_embedding vector(1536),
   match_count int default 5,
-  match_threshold float default 0.7
+  match_threshold float default 0.7,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
 )
 returns table (
   id bigint,
@@ -37,11 +54,233 @@ begin
     1 - (document_chunks.embedding <=> query_embedding) as similarity
   from document_chunks
   where 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    and metadata_matches(document_chunks.metadata, filter)
   order by document_chunks.embedding <=> query_embedding
   limit match_count;
 end;
 $$;
 
+-- Full-text search column for keyword ranking (kept in sync by Postgres)
+alter table document_chunks
+  add column if not exists fts tsvector
+  generated always as (to_tsvector('english', content)) stored;
+
+create index if not exists idx_document_chunks_fts on document_chunks using gin (fts);
+
+-- HYBRID search: weighted fusion of vector similarity and full-text rank
+-- Candidates are chunks that are either semantically close or contain a query term,
+-- so an exact keyword hit with a weak embedding is still considered
+create or replace function hybrid_search (
+  query_embedding vector(1536),
+  query_text text,
+  match_count int default 8,
+  similarity_threshold float default 0.3,
+  vector_weight float default 0.7,
+  keyword_weight float default 0.3,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float,
+  vector_similarity float,
+  keyword_rank float
+)
+language plpgsql
+as $$
+declare
+  -- OR the query terms together; plainto_tsquery would require all of them
+  keyword_query tsquery := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+begin
+  return query
+  with candidates as (
+    select
+      document_chunks.id,
+      document_chunks.content,
+      document_chunks.metadata,
+      1 - (document_chunks.embedding <=> query_embedding) as vector_similarity,
+      -- normalization 32 scales the rank into [0, 1)
+      ts_rank_cd(document_chunks.fts, keyword_query, 32) as keyword_rank
+    from document_chunks
+    where (1 - (document_chunks.embedding <=> query_embedding) > similarity_threshold
+       or document_chunks.fts @@ keyword_query)
+      and metadata_matches(document_chunks.metadata, filter)
+  )
+  select
+    candidates.id,
+    candidates.content,
+    candidates.metadata,
+    (vector_weight * candidates.vector_similarity + keyword_weight * candidates.keyword_rank)::float as similarity,
+    candidates.vector_similarity::float,
+    candidates.keyword_rank::float
+  from candidates
+  order by 4 desc  -- the fused score (a bare name would clash with the output column)
+  limit match_count;
+end;
+$$;
+
+-- KEYWORD search: full-text rank over the whole corpus, for fusing with vector
+-- results (reciprocal rank fusion) in the application
+create or replace function keyword_search (
+  query_text text,
+  match_count int default 8,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  keyword_rank float
+)
+language plpgsql
+as $$
+declare
+  -- OR the query terms together; plainto_tsquery would require all of them
+  keyword_query tsquery := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    ts_rank_cd(document_chunks.fts, keyword_query, 32)::float as keyword_rank
+  from document_chunks
+  where document_chunks.fts @@ keyword_query
+    and metadata_matches(document_chunks.metadata, filter)
+  order by 4 desc
+  limit match_count;
+end;
+$$;
+
+-- Vector search restricted to a single document (metadata->>'document')
+create or replace function search_by_document (
+  query_embedding vector(1536),
+  document_name text,
+  match_count int default 5,
+  match_threshold float default 0.5,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) as similarity
+  from document_chunks
+  where document_chunks.metadata->>'document' = document_name
+    and 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    and metadata_matches(document_chunks.metadata, filter)
+  order by document_chunks.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Histogram of similarity scores across all chunks for a query
+-- Useful for picking thresholds when debugging retrieval quality
+create or replace function analyze_similarity_distribution (
+  query_embedding vector(1536),
+  bucket_count int default 10
+)
+returns table (
+  bucket int,
+  range_start float,
+  range_end float,
+  chunk_count bigint,
+  avg_similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  with scores as (
+    select 1 - (document_chunks.embedding <=> query_embedding) as similarity
+    from document_chunks
+  ),
+  bucketed as (
+    -- clamp into [0, 1) so negative and perfect scores land in the end buckets
+    select
+      width_bucket(least(greatest(scores.similarity, 0), 0.999999), 0, 1, bucket_count) as bucket,
+      scores.similarity
+    from scores
+  )
+  select
+    series.bucket,
+    (series.bucket - 1)::float / bucket_count as range_start,
+    series.bucket::float / bucket_count as range_end,
+    count(bucketed.similarity) as chunk_count,
+    avg(bucketed.similarity)::float as avg_similarity
+  from generate_series(1, bucket_count) as series(bucket)
+  left join bucketed on bucketed.bucket = series.bucket
+  group by series.bucket
+  order by series.bucket;
+end;
+$$;
+
+-- Stored documents with their content hash (used by incremental ingestion)
+create or replace function list_documents ()
+returns table (
+  document text,
+  document_hash text,
+  chunk_count bigint,
+  category text,
+  vehicle_model text,
+  model_year int,
+  language text
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.metadata->>'document',
+    max(document_chunks.metadata->>'document_hash'),
+    count(*),
+    max(document_chunks.metadata->>'category'),
+    max(document_chunks.metadata->>'vehicle_model'),
+    max(document_chunks.metadata->>'model_year')::int,
+    max(document_chunks.metadata->>'language')
+  from document_chunks
+  group by document_chunks.metadata->>'document';
+end;
+$$;
+
+-- Atomically swap one document's chunks: the delete and insert share a
+-- transaction, so readers never see the document missing or half-written
+create or replace function replace_document_chunks (
+  document_name text,
+  chunks jsonb  -- [{ "content": "...", "embedding": [...], "metadata": {...} }]
+)
+returns int
+language plpgsql
+as $$
+declare
+  inserted int;
+begin
+  delete from document_chunks
+  where document_chunks.metadata->>'document' = document_name;
+
+  insert into document_chunks (content, embedding, metadata)
+  select
+    chunk->>'content',
+    (chunk->'embedding')::text::vector,
+    chunk->'metadata'
+  from jsonb_array_elements(chunks) as chunk;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
 -- Create an index on metadata for faster filtering (optional)
 create index idx_document_chunks_metadata on document_chunks using gin (metadata);
 
@@ -62,3 +301,74 @@ create policy "Allow read access for anon users"
   for select
   to anon
   using (true);
+
+-- Chat conversations, persisted by the /api/chat route
+-- Only the server (service role key) reads and writes these tables
+create table conversations (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,  -- anonymous browser id (vd_client cookie)
+  title text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index idx_conversations_owner on conversations (owner_id, updated_at desc);
+
+create table messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  sources jsonb,
+  handoff jsonb,  -- escalation offer shown with low-confidence answers
+  safety jsonb,   -- safety banner shown above answers to safety-critical questions
+  held_back_sources jsonb,  -- sources the confidence gate held back from a declined answer
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index idx_messages_conversation on messages (conversation_id, created_at);
+
+-- RLS on with no policies: anon/authenticated clients cannot read other users' chats
+alter table conversations enable row level security;
+alter table messages enable row level security;
+
+-- Safety-critical questions (high-voltage damage, fire/smoke, thermal events,
+-- crashes) flagged by lib/safety.ts, kept for review. Server-only, like chats.
+create table safety_incidents (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  message text not null,
+  categories text[] not null,
+  via text not null,  -- rules or llm
+  matched text[] not null default '{}',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index idx_safety_incidents_created on safety_incidents (created_at desc);
+
+alter table safety_incidents enable row level security;
+
+-- Thumbs up / down on answers (lib/feedback-store.ts). Question, answer and
+-- sources are copied, so feedback outlives deleted conversations; negative
+-- entries are reviewed on /admin/feedback. Server-only, like chats.
+create table answer_feedback (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  message_id uuid not null,
+  rating text not null check (rating in ('up', 'down')),
+  comment text,
+  question text not null,
+  answer text not null,
+  sources jsonb not null default '[]',  -- Source[] with similarity and rerankScore
+  decision text not null,  -- confidence gate: answer, caveat or refuse
+  expected jsonb,  -- reviewer's { document, page? }[]; null until reviewed
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (owner_id, message_id)
+);
+
+create index idx_answer_feedback_rating on answer_feedback (rating, created_at desc);
+
+alter table answer_feedback enable row level security;
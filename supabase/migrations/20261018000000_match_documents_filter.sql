@@ -0,0 +1,35 @@
+-- Adds the metadata filter argument to match_documents, used by
+-- searchSimilarDocuments in lib/supabase.ts.
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+-- Drop the old three-argument overload so calls are unambiguous
+drop function if exists match_documents(vector, int, float);
+
+create or replace function match_documents (
+  query_embedding vector(1536),
+  match_count int default 5,
+  match_threshold float default 0.7,
+  filter jsonb default '{}'::jsonb  -- exact-match metadata filter, e.g. {"document": "..."}
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) as similarity
+  from document_chunks
+  where 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    and document_chunks.metadata @> filter
+  order by document_chunks.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
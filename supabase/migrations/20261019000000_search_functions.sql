@@ -0,0 +1,132 @@
+-- Adds the server-side search helpers used by lib/supabase.ts
+-- (hybrid_search, search_by_document, analyze_similarity_distribution).
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+-- Full-text search column for keyword ranking (kept in sync by Postgres)
+alter table document_chunks
+  add column if not exists fts tsvector
+  generated always as (to_tsvector('english', content)) stored;
+
+create index if not exists idx_document_chunks_fts on document_chunks using gin (fts);
+
+-- HYBRID search: weighted fusion of vector similarity and full-text rank
+-- Candidates are chunks that are either semantically close or contain a query term,
+-- so an exact keyword hit with a weak embedding is still considered
+create or replace function hybrid_search (
+  query_embedding vector(1536),
+  query_text text,
+  match_count int default 8,
+  similarity_threshold float default 0.3,
+  vector_weight float default 0.7,
+  keyword_weight float default 0.3
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float,
+  vector_similarity float,
+  keyword_rank float
+)
+language plpgsql
+as $$
+declare
+  -- OR the query terms together; plainto_tsquery would require all of them
+  keyword_query tsquery := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+begin
+  return query
+  with candidates as (
+    select
+      document_chunks.id,
+      document_chunks.content,
+      document_chunks.metadata,
+      1 - (document_chunks.embedding <=> query_embedding) as vector_similarity,
+      -- normalization 32 scales the rank into [0, 1)
+      ts_rank_cd(document_chunks.fts, keyword_query, 32) as keyword_rank
+    from document_chunks
+    where 1 - (document_chunks.embedding <=> query_embedding) > similarity_threshold
+       or document_chunks.fts @@ keyword_query
+  )
+  select
+    candidates.id,
+    candidates.content,
+    candidates.metadata,
+    (vector_weight * candidates.vector_similarity + keyword_weight * candidates.keyword_rank)::float as similarity,
+    candidates.vector_similarity::float,
+    candidates.keyword_rank::float
+  from candidates
+  order by 4 desc  -- the fused score (a bare name would clash with the output column)
+  limit match_count;
+end;
+$$;
+
+-- Vector search restricted to a single document (metadata->>'document')
+create or replace function search_by_document (
+  query_embedding vector(1536),
+  document_name text,
+  match_count int default 5,
+  match_threshold float default 0.5
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) as similarity
+  from document_chunks
+  where document_chunks.metadata->>'document' = document_name
+    and 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  order by document_chunks.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Histogram of similarity scores across all chunks for a query
+-- Useful for picking thresholds when debugging retrieval quality
+create or replace function analyze_similarity_distribution (
+  query_embedding vector(1536),
+  bucket_count int default 10
+)
+returns table (
+  bucket int,
+  range_start float,
+  range_end float,
+  chunk_count bigint,
+  avg_similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  with scores as (
+    select 1 - (document_chunks.embedding <=> query_embedding) as similarity
+    from document_chunks
+  ),
+  bucketed as (
+    -- clamp into [0, 1) so negative and perfect scores land in the end buckets
+    select
+      width_bucket(least(greatest(scores.similarity, 0), 0.999999), 0, 1, bucket_count) as bucket,
+      scores.similarity
+    from scores
+  )
+  select
+    series.bucket,
+    (series.bucket - 1)::float / bucket_count as range_start,
+    series.bucket::float / bucket_count as range_end,
+    count(bucketed.similarity) as chunk_count,
+    avg(bucketed.similarity)::float as avg_similarity
+  from generate_series(1, bucket_count) as series(bucket)
+  left join bucketed on bucketed.bucket = series.bucket
+  group by series.bucket
+  order by series.bucket;
+end;
+$$;
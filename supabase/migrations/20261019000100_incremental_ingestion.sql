@@ -0,0 +1,48 @@
+-- Helpers for incremental ingestion (scripts/ingest-documents.ts)
+
+-- Stored documents with their content hash (used by incremental ingestion)
+create or replace function list_documents ()
+returns table (
+  document text,
+  document_hash text,
+  chunk_count bigint
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.metadata->>'document',
+    max(document_chunks.metadata->>'document_hash'),
+    count(*)
+  from document_chunks
+  group by document_chunks.metadata->>'document';
+end;
+$$;
+
+-- Atomically swap one document's chunks: the delete and insert share a
+-- transaction, so readers never see the document missing or half-written
+create or replace function replace_document_chunks (
+  document_name text,
+  chunks jsonb  -- [{ "content": "...", "embedding": [...], "metadata": {...} }]
+)
+returns int
+language plpgsql
+as $$
+declare
+  inserted int;
+begin
+  delete from document_chunks
+  where document_chunks.metadata->>'document' = document_name;
+
+  insert into document_chunks (content, embedding, metadata)
+  select
+    chunk->>'content',
+    (chunk->'embedding')::text::vector,
+    chunk->'metadata'
+  from jsonb_array_elements(chunks) as chunk;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
@@ -0,0 +1,29 @@
+-- Persistent chat conversations (lib/conversation-store.ts)
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+-- Chat conversations, persisted by the /api/chat route
+-- Only the server (service role key) reads and writes these tables
+create table if not exists conversations (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,  -- anonymous browser id (vd_client cookie)
+  title text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_conversations_owner on conversations (owner_id, updated_at desc);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  sources jsonb,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_messages_conversation on messages (conversation_id, created_at);
+
+-- RLS on with no policies: anon/authenticated clients cannot read other users' chats
+alter table conversations enable row level security;
+alter table messages enable row level security;
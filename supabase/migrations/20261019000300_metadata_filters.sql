@@ -0,0 +1,164 @@
+-- Metadata-filtered retrieval (vehicle model, model year, category, language).
+-- A filter key matches chunks that carry the same value or don't set the key at
+-- all, so general documents stay visible when a vehicle is selected.
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+create or replace function metadata_matches (metadata jsonb, filter jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select not exists (
+    select 1
+    from jsonb_each(filter) as f(key, value)
+    where metadata ? f.key
+      and jsonb_typeof(metadata->f.key) <> 'null'
+      and metadata->f.key <> f.value
+  );
+$$;
+
+create or replace function match_documents (
+  query_embedding vector(1536),
+  match_count int default 5,
+  match_threshold float default 0.7,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) as similarity
+  from document_chunks
+  where 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    and metadata_matches(document_chunks.metadata, filter)
+  order by document_chunks.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- hybrid_search and search_by_document gained a `filter` argument; drop the old
+-- overloads so calls are unambiguous
+drop function if exists hybrid_search(vector, text, int, float, float, float);
+
+create or replace function hybrid_search (
+  query_embedding vector(1536),
+  query_text text,
+  match_count int default 8,
+  similarity_threshold float default 0.3,
+  vector_weight float default 0.7,
+  keyword_weight float default 0.3,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float,
+  vector_similarity float,
+  keyword_rank float
+)
+language plpgsql
+as $$
+declare
+  -- OR the query terms together; plainto_tsquery would require all of them
+  keyword_query tsquery := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+begin
+  return query
+  with candidates as (
+    select
+      document_chunks.id,
+      document_chunks.content,
+      document_chunks.metadata,
+      1 - (document_chunks.embedding <=> query_embedding) as vector_similarity,
+      -- normalization 32 scales the rank into [0, 1)
+      ts_rank_cd(document_chunks.fts, keyword_query, 32) as keyword_rank
+    from document_chunks
+    where (1 - (document_chunks.embedding <=> query_embedding) > similarity_threshold
+       or document_chunks.fts @@ keyword_query)
+      and metadata_matches(document_chunks.metadata, filter)
+  )
+  select
+    candidates.id,
+    candidates.content,
+    candidates.metadata,
+    (vector_weight * candidates.vector_similarity + keyword_weight * candidates.keyword_rank)::float as similarity,
+    candidates.vector_similarity::float,
+    candidates.keyword_rank::float
+  from candidates
+  order by 4 desc  -- the fused score (a bare name would clash with the output column)
+  limit match_count;
+end;
+$$;
+
+drop function if exists search_by_document(vector, text, int, float);
+
+create or replace function search_by_document (
+  query_embedding vector(1536),
+  document_name text,
+  match_count int default 5,
+  match_threshold float default 0.5,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) as similarity
+  from document_chunks
+  where document_chunks.metadata->>'document' = document_name
+    and 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    and metadata_matches(document_chunks.metadata, filter)
+  order by document_chunks.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- list_documents also returns the per-document manifest fields (the vehicle selector's options)
+drop function if exists list_documents();
+
+create or replace function list_documents ()
+returns table (
+  document text,
+  document_hash text,
+  chunk_count bigint,
+  category text,
+  vehicle_model text,
+  model_year int,
+  language text
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    document_chunks.metadata->>'document',
+    max(document_chunks.metadata->>'document_hash'),
+    count(*),
+    max(document_chunks.metadata->>'category'),
+    max(document_chunks.metadata->>'vehicle_model'),
+    max(document_chunks.metadata->>'model_year')::int,
+    max(document_chunks.metadata->>'language')
+  from document_chunks
+  group by document_chunks.metadata->>'document';
+end;
+$$;
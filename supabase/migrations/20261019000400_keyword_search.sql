@@ -0,0 +1,34 @@
+-- Keyword-only search over the fts column, run alongside vector search and
+-- combined with it by reciprocal rank fusion (RAG_HYBRID_MODE=rrf).
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+create or replace function keyword_search (
+  query_text text,
+  match_count int default 8,
+  filter jsonb default '{}'::jsonb  -- metadata filter, see metadata_matches
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  keyword_rank float
+)
+language plpgsql
+as $$
+declare
+  -- OR the query terms together; plainto_tsquery would require all of them
+  keyword_query tsquery := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+begin
+  return query
+  select
+    document_chunks.id,
+    document_chunks.content,
+    document_chunks.metadata,
+    ts_rank_cd(document_chunks.fts, keyword_query, 32)::float as keyword_rank
+  from document_chunks
+  where document_chunks.fts @@ keyword_query
+    and metadata_matches(document_chunks.metadata, filter)
+  order by 4 desc
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Low-confidence answers carry an "escalate to a VoltDrive agent" offer with a
+-- pre-filled case summary; store it with the message so reloaded chats show it.
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+alter table messages add column if not exists handoff jsonb;
@@ -0,0 +1,21 @@
+-- Safety banners on answers and the safety incident log.
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+alter table messages add column if not exists safety jsonb;
+
+-- Safety-critical questions (high-voltage damage, fire/smoke, thermal events,
+-- crashes) flagged by lib/safety.ts, kept for review. Server-only, like chats.
+create table if not exists safety_incidents (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  message text not null,
+  categories text[] not null,
+  via text not null,  -- rules or llm
+  matched text[] not null default '{}',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_safety_incidents_created on safety_incidents (created_at desc);
+
+alter table safety_incidents enable row level security;
@@ -0,0 +1,30 @@
+-- Answer feedback and the review queue behind /admin/feedback.
+-- Safe to run against a database created from an older supabase-setup.sql.
+
+-- Sources the confidence gate held back from a declined answer, so feedback on
+-- the refusal still records what retrieval found
+alter table messages add column if not exists held_back_sources jsonb;
+
+-- Thumbs up / down on answers (lib/feedback-store.ts). Question, answer and
+-- sources are copied, so feedback outlives deleted conversations; negative
+-- entries are reviewed on /admin/feedback. Server-only, like chats.
+create table if not exists answer_feedback (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  message_id uuid not null,
+  rating text not null check (rating in ('up', 'down')),
+  comment text,
+  question text not null,
+  answer text not null,
+  sources jsonb not null default '[]',  -- Source[] with similarity and rerankScore
+  decision text not null,  -- confidence gate: answer, caveat or refuse
+  expected jsonb,  -- reviewer's { document, page? }[]; null until reviewed
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (owner_id, message_id)
+);
+
+create index if not exists idx_answer_feedback_rating on answer_feedback (rating, created_at desc);
+
+alter table answer_feedback enable row level security;
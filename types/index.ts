@@ -3,33 +3,179 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   sources?: Source[];
+  // Offered when the assistant wasn't confident enough to answer outright
+  handoff?: Handoff;
+  // Safety banner shown above answers to safety-critical questions
+  safety?: SafetyNotice;
+  // Sources the confidence gate held back from a declined answer: never shown,
+  // kept so feedback on the refusal records what retrieval found
+  heldBackSources?: Source[];
   timestamp: Date;
 }
 
+// Safety-critical topics that get mandatory warnings instead of casual DIY advice
+export type SafetyCategory = 'high_voltage' | 'fire_smoke' | 'thermal_event' | 'collision';
+
+// Non-dismissable banner sent as the stream's first (`safety`) event
+export interface SafetyNotice {
+  categories: SafetyCategory[];
+  title: string;
+  steps: string[];
+}
+
+// Confidence gate outcome: answer normally, answer with a caveat, or decline
+export type AnswerDecision = 'answer' | 'caveat' | 'refuse';
+
+// "Escalate to a VoltDrive agent" offer sent as the stream's `handoff` event
+export interface Handoff {
+  reason: 'low_confidence' | 'no_match';
+  decision: AnswerDecision;
+  // Best reranked score behind the decision
+  confidence: number;
+  // Pre-filled case summary for the agent
+  summary: string;
+}
+
 export interface Source {
   document: string;
   page: number;
   content: string;
-  similarity: number;
+  // Raw vector similarity from retrieval; unset for chunks only found by the
+  // lexical search in 'rrf' mode, whose cosine was never computed
+  similarity?: number;
+  // Score the reranker ordered sources by (not comparable across rerankers)
+  rerankScore?: number;
+  // Identifies the chunk on its page for the document viewer highlight
+  chunkHash?: string;
+}
+
+export interface ChunkMetadata {
+  document: string;
+  page: number;
+  section?: string;
+  chunk_index: number;
+  // Per-document fields declared in the ingestion manifest
+  document_id?: string;
+  source_file?: string;
+  category?: string;
+  model_year?: number;
+  vehicle_model?: string;
+  language?: string;
+  effective_date?: string;
+  // Content hashes used by incremental ingestion
+  document_hash?: string;
+  chunk_hash?: string;
 }
 
 export interface DocumentChunk {
   id: string;
   content: string;
   embedding: number[];
-  metadata: {
-    document: string;
-    page: number;
-    section?: string;
-    chunk_index: number;
-  };
+  metadata: ChunkMetadata;
+}
+
+export interface RetrievedChunk {
+  id: number | string;
+  content: string;
+  metadata: ChunkMetadata;
+  similarity: number;
+  // Populated by hybrid search: the two signals behind `similarity`
+  vector_similarity?: number;
+  keyword_rank?: number;
+  // Set by rank fusion: `similarity` is a fused rank score, not a cosine
+  fused?: boolean;
+}
+
+// Narrows retrieval to matching documents; documents that don't set a field
+// (e.g. a guide for every model) still match
+export interface RetrievalFilters {
+  vehicleModel?: string;
+  modelYear?: number;
+  category?: string;
+  language?: string;
+}
+
+// Topic a question is routed by (lib/rag.ts)
+export type QueryIntent = 'troubleshooting' | 'warranty' | 'pricing' | 'general';
+
+export interface QueryRoute {
+  // Most likely first; several when the question is ambiguous
+  intents: QueryIntent[];
+  via: 'rules' | 'llm' | 'off';
+  // Documents searched; empty means the whole corpus
+  documents: string[];
+}
+
+// A vehicle the chat can be scoped to (modelYear unset: every year of the model)
+export interface VehicleOption {
+  vehicleModel: string;
+  modelYear?: number;
 }
 
 export interface ChatRequest {
   message: string;
-  conversationHistory?: Message[];
+  // Continue a stored conversation; a new one is created when omitted
+  conversationId?: string;
+  filters?: RetrievalFilters;
+  // heuristic, bm25, llm or none; the server default applies when omitted
+  reranker?: string;
+  // User message this one replaces, by stored id or by its index in the stored
+  // conversation: it and everything after it are removed (edit & resend,
+  // regenerate). An index equal to the message count replaces nothing.
+  replaceFrom?: string | number;
+}
+
+// Thumbs up / down on an assistant answer
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackRequest {
+  conversationId: string;
+  // Stored id of the rated assistant message
+  messageId: string;
+  rating: FeedbackRating;
+  comment?: string;
 }
 
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: Message[];
+}
+
+// Token counts for one completion, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Events on the /api/chat stream (lib/chat-stream.ts), in the order they are sent.
+// Each is one SSE `data:` line holding JSON; readers skip types they don't know.
+export type ChatStreamEvent =
+  // Always first: the protocol version the rest of the stream follows
+  | { type: 'start'; version: number }
+  | { type: 'safety'; notice: SafetyNotice }
+  // userMessageId: the stored id of the question, for edit & resend and regenerate;
+  // answerMessageId: the id the answer is saved under, also when it is stopped
+  | { type: 'conversation'; conversation: Conversation; userMessageId?: string; answerMessageId?: string }
+  // The query retrieval ran with and where it was routed (for debugging)
+  | { type: 'query'; original: string; rewritten: string; rewrote: boolean; route: QueryRoute }
+  | { type: 'sources'; sources: Source[] }
+  | { type: 'handoff'; handoff: Handoff }
+  // A piece of answer text, to append to what came before
+  | { type: 'delta'; content: string }
+  // Sent when the provider reports it
+  | { type: 'usage'; usage: TokenUsage }
+  // The answer stopped early; no `done` follows
+  | { type: 'error'; message: string }
+  // messageId: the stored answer (unset if saving it failed)
+  | { type: 'done'; messageId?: string };
+
 export interface ChatResponse {
   message: string;
   sources: Source[];